@@ -0,0 +1,215 @@
+import {
+    InjectHooks,
+    InjectHooksBridge,
+    InjectHooksErrorInfo
+} from "./inject-hooks";
+import { MessageChannel } from "node:worker_threads";
+import test from "ava";
+
+async function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Messages take a moment to cross the channel, longer on a busy machine
+async function until(check: () => boolean) {
+    for (let i = 0; i < 200 && !check(); i += 1) {
+        await sleep(10);
+    }
+}
+
+function ids(hooks: InjectHooks, name: string) {
+    return hooks.describe(name).map((item) => item.id);
+}
+
+function connect(
+    optionsA: ConstructorParameters<typeof InjectHooksBridge>[2] = {},
+    optionsB: ConstructorParameters<typeof InjectHooksBridge>[2] = {}
+) {
+    const channel = new MessageChannel();
+    const a = new InjectHooks();
+    const b = new InjectHooks();
+    const bridgeA = new InjectHooksBridge(a, channel.port1, optionsA);
+    const bridgeB = new InjectHooksBridge(b, channel.port2, optionsB);
+    const close = () => {
+        bridgeA.close();
+        bridgeB.close();
+        channel.port1.close();
+    };
+
+    return { a, b, bridgeA, bridgeB, close };
+}
+
+test("forwarded events reach the other side", async (t) => {
+    const { a, b, close } = connect({ forward: ["save", "user:*"] });
+    const calls: string[] = [];
+    a.inject("save", "local", (d: string, next) => next(`${d} local`));
+    b.inject("save", "remote", (d: string, next) => next(`${d} remote`));
+    b.on("save", (d) => calls.push(d));
+    a.emit("save", "a");
+    t.is(await b.waitFor("save", { timeout: 1000 }), "a local remote");
+    a.emit("user:login", { id: 1 });
+    t.deepEqual(await b.waitFor("user:login", { timeout: 1000 }), { id: 1 });
+
+    // Events that are not listed stay local
+    a.emit("other");
+    await t.throwsAsync(b.waitFor("other", { timeout: 50 }));
+    t.deepEqual(calls, ["a local remote"]);
+    close();
+});
+
+test("events forwarded in both directions do not bounce back", async (t) => {
+    const { a, b, close } = connect(
+        { forward: ["ping"] },
+        { forward: (name) => name === "ping" }
+    );
+    const seenA: string[] = [];
+    const seenB: string[] = [];
+    a.on("ping", (d) => seenA.push(d));
+    b.on("ping", (d) => seenB.push(d));
+    a.emit("ping", "from a");
+    b.emit("ping", "from b");
+    await until(() => seenA.length + seenB.length >= 4);
+
+    // Give anything that bounced back time to arrive
+    await sleep(50);
+    t.deepEqual(seenA.sort(), ["from a", "from b"]);
+    t.deepEqual(seenB.sort(), ["from a", "from b"]);
+    close();
+});
+
+test("relayed events that never reach the bridge do not stop later ones", async (t) => {
+    const channel = new MessageChannel();
+    const a = new InjectHooks();
+    const b = new InjectHooks();
+    const seen: string[] = [];
+    let received = false;
+    a.on("y", (d) => seen.push(d));
+
+    // The second handler bails before the bridge's handler runs
+    b.kind("x", "bail");
+    b.on("x", () => {
+        received = true;
+    });
+    b.on("x", () => "stop");
+    const bridgeA = new InjectHooksBridge(a, channel.port1, {
+        forward: ["x", "y"]
+    });
+    const bridgeB = new InjectHooksBridge(b, channel.port2, {
+        forward: ["x", "y"]
+    });
+    a.emit("x", "from a");
+    await until(() => received);
+    b.emit("y", "from b");
+    await until(() => seen.length > 0);
+    t.deepEqual(seen, ["from b"]);
+    bridgeA.close();
+    bridgeB.close();
+    channel.port1.close();
+});
+
+test("remote interceptors run on the other side", async (t) => {
+    const { a, bridgeB, close } = connect();
+    bridgeB.inject("save", "worker", async (d: string) => {
+        await sleep(10);
+
+        return `${d} worker`;
+    });
+    bridgeB.inject(
+        "save",
+        "block",
+        (d: string, next) =>
+            d.startsWith("stop") ? next.cancel("blocked") : next(d),
+        { after: "worker" }
+    );
+    bridgeB.inject("save", "broken", (d: string, next) => {
+        if (d.startsWith("fail")) {
+            throw new Error("worker failed");
+        }
+
+        next(d);
+    });
+    a.inject("save", "last", (d: string, next) => next(`${d} last`), {
+        after: ["worker", "block", "broken"]
+    });
+    await until(() => ids(a, "save").length === 4);
+    t.deepEqual(ids(a, "save"), ["worker", "block", "broken", "last"]);
+    t.is((await a.emitAsync("save", "a")).data, "a worker last");
+    t.like(await a.emitAsync("save", "stop"), {
+        status: "cancelled",
+        cancelledBy: "block",
+        reason: "blocked"
+    });
+    await t.throwsAsync(a.emitAsync("save", "fail"), {
+        message: "worker failed"
+    });
+
+    bridgeB.remove("save", "broken");
+    await until(() => ids(a, "save").length === 3);
+    t.deepEqual(ids(a, "save"), ["worker", "block", "last"]);
+    close();
+});
+
+test("remote interceptors that take next can return a Promise of nothing", async (t) => {
+    const { a, bridgeB, close } = connect();
+    bridgeB.inject("count", "later", async (d: number, next) => {
+        setTimeout(() => next(d + 1), 20);
+    });
+    await until(() => ids(a, "count").length === 1);
+    t.like(await a.emitAsync("count", 1), { status: "delivered", data: 2 });
+    close();
+});
+
+test("messages that fail on arrival are reported", async (t) => {
+    const channel = new MessageChannel();
+    const errors: InjectHooksErrorInfo[] = [];
+    const a = new InjectHooks();
+    const b = new InjectHooks({ onError: (info) => errors.push(info) });
+    b.schema("save", "string");
+    b.inject("save", "taken", (d, next) => next(d));
+    const bridgeA = new InjectHooksBridge(a, channel.port1, {
+        forward: ["save"]
+    });
+    const bridgeB = new InjectHooksBridge(b, channel.port2);
+    a.emit("save", 1);
+    bridgeA.inject("save", "taken", (d, next) => next(d));
+    await until(() => errors.length === 2);
+
+    // The emit is only forwarded once it was delivered on side A
+    t.like(errors[0], { name: "save", id: "taken" });
+    t.like(errors[1], { name: "save", data: 1 });
+    t.deepEqual(ids(b, "save"), ["taken"]);
+    bridgeA.close();
+    bridgeB.close();
+    channel.port1.close();
+});
+
+test("closing removes remote interceptors and stops waiting", async (t) => {
+    const { a, bridgeB, close } = connect();
+    const calls: string[] = [];
+    bridgeB.inject("save", "never", (d: string) => {
+        calls.push(d);
+    });
+    await until(() => ids(a, "save").length === 1);
+    const pending = a.emitAsync("save", "a");
+    await until(() => calls.length === 1);
+    bridgeB.close();
+    await t.throwsAsync(pending, { message: "InjectHooks - bridge closed" });
+    t.deepEqual(ids(a, "save"), []);
+    close();
+});
+
+test("payloads can be serialized for the port", async (t) => {
+    const serializer = {
+        serialize: (value: any) =>
+            value instanceof Set ? { $set: [...value] } : value,
+        deserialize: (value: any) =>
+            value?.$set ? new Set(value.$set) : value
+    };
+    const { a, b, close } = connect(
+        { forward: ["tags"], serializer },
+        { serializer }
+    );
+    a.emit("tags", new Set(["x"]));
+    t.deepEqual(await b.waitFor("tags", { timeout: 1000 }), new Set(["x"]));
+    close();
+});
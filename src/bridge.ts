@@ -0,0 +1,329 @@
+import type {
+    InjectHooks,
+    InjectHooksConditions,
+    InjectHooksErrorInfo,
+    InjectHooksFilter,
+    InjectHooksId,
+    InjectHooksInterceptor,
+    InjectHooksKey,
+    InjectHooksNext
+} from "./inject-hooks";
+import { InjectHooksInternals } from "./inject-hooks";
+import { InjectHooksPattern, isPattern, patternMatches } from "./pattern";
+import type { InjectHooksSerializer } from "./recording";
+
+export interface InjectHooksPort {
+    postMessage(message: any): void;
+    addEventListener?(
+        type: "message",
+        listener: (event: { data: any }) => void
+    ): void;
+    removeEventListener?(
+        type: "message",
+        listener: (event: { data: any }) => void
+    ): void;
+    on?(type: "message", listener: (message: any) => void): void;
+    off?(type: "message", listener: (message: any) => void): void;
+    start?(): void;
+}
+export interface InjectHooksBridgeOptions {
+    forward?: (InjectHooksKey | InjectHooksPattern)[] | InjectHooksFilter;
+    serializer?: InjectHooksSerializer;
+}
+type BridgeMessage =
+    | { type: "emit"; name: InjectHooksKey; data: any }
+    | {
+          type: "inject";
+          name: InjectHooksKey;
+          id: InjectHooksId;
+          conditions: InjectHooksConditions;
+      }
+    | { type: "remove"; name: InjectHooksKey; id: InjectHooksId }
+    | {
+          type: "call";
+          call: number;
+          name: InjectHooksKey;
+          id: InjectHooksId;
+          event: InjectHooksKey;
+          data: any;
+      }
+    | { type: "next"; call: number; data: any }
+    | { type: "cancel"; call: number; reason: any }
+    | { type: "error"; call: number; error: any }
+    | { type: "close" };
+interface BridgeCall {
+    resolve: (data: any) => void;
+    reject: (error: unknown) => void;
+    cancel: InjectHooksNext["cancel"];
+}
+
+// Other code may share the port, so every message is marked as ours.
+const marker = "inject-hooks-bridge";
+const identity: InjectHooksSerializer = {
+    serialize: (value) => value,
+    deserialize: (value) => value
+};
+
+function key(name: InjectHooksKey, id: InjectHooksId) {
+    return JSON.stringify([name, id]);
+}
+
+export class InjectHooksBridge {
+    private _calls = new Map<number, BridgeCall>();
+    private _interceptors = new Map<
+        string,
+        InjectHooksInterceptor<string, any>
+    >();
+    private _proxies = new Map<
+        string,
+        { name: InjectHooksKey; id: InjectHooksId }
+    >();
+    private _closed = false;
+    private _forwards: InjectHooksFilter;
+    private _lastCall = 0;
+    private _serializer: InjectHooksSerializer;
+
+    constructor(
+        private _hooks: InjectHooks<any>,
+        private _port: InjectHooksPort,
+        options: InjectHooksBridgeOptions = {}
+    ) {
+        const { forward = [] } = options;
+        this._serializer = options.serializer ?? identity;
+        this._forwards =
+            typeof forward === "function"
+                ? forward
+                : (name) =>
+                      forward.some((item) =>
+                          isPattern(item)
+                              ? patternMatches(item, name)
+                              : item === name
+                      );
+        this._hooks.on(this._forwards, this._forward);
+
+        if (_port.addEventListener) {
+            _port.addEventListener("message", this._listener);
+            _port.start?.();
+        } else {
+            _port.on!("message", this._receive);
+        }
+    }
+
+    close(): void {
+        if (this._closed) {
+            return;
+        }
+
+        this._closed = true;
+        this._post({ type: "close" });
+        this._disconnect();
+    }
+
+    inject<KEY extends InjectHooksKey>(
+        name: KEY | InjectHooksPattern,
+        id: InjectHooksId,
+        interceptor: InjectHooksInterceptor<KEY, any>,
+        conditions: InjectHooksConditions = {}
+    ): this {
+        // Functions and signals can not be sent to the other side.
+        const { signal, ...rest } = conditions;
+        this._interceptors.set(
+            key(name, id),
+            interceptor as InjectHooksInterceptor<string, any>
+        );
+        this._post({ type: "inject", name, id, conditions: rest });
+        signal?.addEventListener("abort", () => this.remove(name, id));
+
+        return this;
+    }
+
+    remove(name: InjectHooksKey | InjectHooksPattern, id: InjectHooksId): this {
+        if (this._interceptors.delete(key(name, id))) {
+            this._post({ type: "remove", name, id });
+        }
+
+        return this;
+    }
+
+    private _disconnect() {
+        this._hooks.off(this._forwards, this._forward);
+
+        for (const { name, id } of this._proxies.values()) {
+            this._hooks.remove(name, id);
+        }
+
+        this._proxies.clear();
+        this._interceptors.clear();
+
+        for (const call of this._calls.values()) {
+            call.reject(new Error("InjectHooks - bridge closed"));
+        }
+
+        this._calls.clear();
+
+        if (this._port.removeEventListener) {
+            this._port.removeEventListener("message", this._listener);
+        } else {
+            this._port.off!("message", this._receive);
+        }
+    }
+
+    private _forward = (data: any, name: InjectHooksKey) => {
+        this._post({
+            type: "emit",
+            name,
+            data: this._serializer.serialize(data)
+        });
+    };
+
+    private _inject(
+        name: InjectHooksKey,
+        id: InjectHooksId,
+        conditions: InjectHooksConditions
+    ) {
+        const { serialize } = this._serializer;
+        this._hooks.inject(
+            name,
+            id,
+            (data, next, event) =>
+                new Promise<unknown>((resolve, reject) => {
+                    this._lastCall += 1;
+                    const call = this._lastCall;
+                    this._calls.set(call, {
+                        resolve,
+                        reject,
+                        cancel: next.cancel
+                    });
+                    this._post({
+                        type: "call",
+                        call,
+                        name,
+                        id,
+                        event,
+                        data: serialize(data)
+                    });
+                }).then(next),
+            conditions
+        );
+        this._proxies.set(key(name, id), { name, id });
+    }
+
+    private _listener = (event: { data: any }) => this._receive(event.data);
+
+    private _post(message: BridgeMessage) {
+        if (!this._closed || message.type === "close") {
+            this._port.postMessage({ [marker]: message });
+        }
+    }
+
+    private _receive = (raw: any) => {
+        const message: BridgeMessage | undefined = raw?.[marker];
+        const { deserialize } = this._serializer;
+
+        if (!message || this._closed) {
+            return;
+        }
+
+        // Nothing can catch what a port listener throws, so failures are
+        // reported like other errors of this instance.
+        if (message.type === "emit") {
+            try {
+                // Events that arrived from the other side are not sent back.
+                this._hooks[InjectHooksInternals]().relay(
+                    message.name,
+                    deserialize(message.data),
+                    this._forward
+                );
+            } catch (error) {
+                this._report({
+                    error,
+                    name: message.name,
+                    data: message.data
+                });
+            }
+        } else if (message.type === "inject") {
+            const { name, id, conditions } = message;
+
+            try {
+                this._inject(name, id, conditions);
+            } catch (error) {
+                this._report({ error, name, data: undefined, id });
+            }
+        } else if (message.type === "remove") {
+            if (this._proxies.delete(key(message.name, message.id))) {
+                this._hooks.remove(message.name, message.id);
+            }
+        } else if (message.type === "call") {
+            this._call(message);
+        } else if (message.type === "close") {
+            this._closed = true;
+            this._disconnect();
+        } else {
+            const call = this._calls.get(message.call);
+            this._calls.delete(message.call);
+
+            if (message.type === "next") {
+                call?.resolve(deserialize(message.data));
+            } else if (message.type === "cancel") {
+                call?.cancel(deserialize(message.reason));
+            } else {
+                call?.reject(deserialize(message.error));
+            }
+        }
+    };
+
+    private _call(message: Extract<BridgeMessage, { type: "call" }>) {
+        const { call, name, id, event } = message;
+        const { deserialize, serialize } = this._serializer;
+        const interceptor = this._interceptors.get(key(name, id));
+        let settled = false;
+        const reply = (
+            result:
+                | { type: "next"; data: any }
+                | { type: "cancel"; reason: any }
+                | { type: "error"; error: any }
+        ) => {
+            if (!settled) {
+                settled = true;
+                this._post({ ...result, call });
+            }
+        };
+        const fail = (error: unknown) =>
+            reply({ type: "error", error: serialize(error) });
+
+        if (!interceptor) {
+            fail(new Error(`InjectHooks - remote interceptor ${id} not found`));
+
+            return;
+        }
+
+        const next = ((data: any) =>
+            reply({ type: "next", data: serialize(data) })) as InjectHooksNext;
+        next.cancel = (reason?: unknown) =>
+            reply({ type: "cancel", reason: serialize(reason) });
+
+        try {
+            const returned = interceptor(
+                deserialize(message.data),
+                next,
+                event
+            );
+
+            // As with local interceptors, one that takes next() may
+            // resolve with nothing and call next() later.
+            if (returned && typeof returned.then === "function") {
+                returned.then((value: unknown) => {
+                    if (value !== undefined || interceptor.length < 2) {
+                        next(value);
+                    }
+                }, fail);
+            }
+        } catch (error) {
+            fail(error);
+        }
+    }
+
+    private _report(info: InjectHooksErrorInfo) {
+        this._hooks[InjectHooksInternals]().report(info);
+    }
+}
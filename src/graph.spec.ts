@@ -0,0 +1,127 @@
+import { InjectHooks } from "./inject-hooks";
+import test from "ava";
+
+function setup() {
+    const hooks = new InjectHooks();
+    hooks.inject("navigate", "core:fetch", () => {});
+    hooks.inject("navigate", "cache:read", () => {}, {
+        before: "core:fetch",
+        order: "mid"
+    });
+    hooks.inject("navigate", "cache:write", () => {}, {
+        order: "post",
+        depends: "cache:read",
+        conflicts: "other:cache"
+    });
+
+    return hooks;
+}
+
+test("json graph has nodes and edges", (t) => {
+    const graph = JSON.parse(setup().graph("navigate"));
+    t.is(graph.name, "navigate");
+    t.deepEqual(graph.nodes, [
+        { id: "cache:read", present: true, phase: "mid", matchedBy: "name" },
+        { id: "core:fetch", present: true, phase: "mid", matchedBy: "name" },
+        { id: "cache:write", present: true, phase: "post", matchedBy: "name" },
+        { id: "other:cache", present: false }
+    ]);
+    t.deepEqual(graph.edges, [
+        { from: "cache:read", to: "core:fetch", type: "order" },
+        { from: "cache:write", to: "cache:read", type: "depends" },
+        { from: "cache:write", to: "other:cache", type: "conflicts" }
+    ]);
+});
+
+test("ordering across phases is not drawn", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", () => {}, { order: "pre", after: "two" });
+    hooks.inject("test", "two", () => {});
+    t.deepEqual(JSON.parse(hooks.graph("test")).edges, []);
+});
+
+test("dot graph", (t) => {
+    t.is(
+        setup().graph("navigate", "dot"),
+        `digraph "navigate" {
+    rankdir=LR;
+    subgraph "cluster_mid" {
+        label="mid";
+        "cache:read";
+        "core:fetch";
+    }
+    subgraph "cluster_post" {
+        label="post";
+        "cache:write";
+    }
+    "other:cache" [style=dashed];
+    "cache:read" -> "core:fetch";
+    "cache:write" -> "cache:read" [style=dashed, label="depends"];
+    "cache:write" -> "other:cache" [style=dotted, color=red, arrowhead=none, label="conflicts"];
+}
+`
+    );
+});
+
+test("mermaid graph", (t) => {
+    t.is(
+        setup().graph("navigate", "mermaid"),
+        `flowchart LR
+    subgraph mid
+        n0["cache:read"]
+        n1["core:fetch"]
+    end
+    subgraph post
+        n2["cache:write"]
+    end
+    n3["other:cache"]:::absent
+    n0 --> n1
+    n2 -. depends .-> n0
+    n2 -. conflicts .- n3
+    classDef absent stroke-dasharray: 5 5
+`
+    );
+});
+
+test("filter interceptors are drawn differently", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject(() => true, "any", () => {});
+    t.regex(hooks.graph("test", "dot"), /"any" \[shape=box\];/);
+    t.regex(hooks.graph("test", "mermaid"), /n0\[\["any"\]\]/);
+});
+
+test("broken configurations can still be drawn", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", () => {}, { after: "two", conflicts: "three" });
+    hooks.inject("test", "two", () => {}, { after: "one" });
+    hooks.inject("test", "three", () => {}, { depends: "four" });
+    hooks.inject("test", "new", () => {}, { replaces: "two" });
+    hooks.inject("test", "newer", () => {}, { replaces: "two" });
+    t.throws(() => hooks.describe("test"));
+    const graph = JSON.parse(hooks.graph("test"));
+    t.deepEqual(
+        graph.nodes.map((node: { id: string }) => node.id),
+        ["one", "two", "three", "new", "newer", "four"]
+    );
+    t.deepEqual(graph.edges, [
+        { from: "two", to: "one", type: "order" },
+        { from: "one", to: "three", type: "conflicts" },
+        { from: "one", to: "two", type: "order" },
+        { from: "three", to: "four", type: "depends" }
+    ]);
+});
+
+test("replaced interceptors are drawn in their replacement's place", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", () => {});
+    hooks.inject("test", "two", () => {}, { after: "one" });
+    hooks.inject("test", "new", () => {}, { replaces: "one" });
+    t.deepEqual(JSON.parse(hooks.graph("test")), {
+        name: "test",
+        nodes: [
+            { id: "new", present: true, phase: "mid", matchedBy: "name" },
+            { id: "two", present: true, phase: "mid", matchedBy: "name" }
+        ],
+        edges: [{ from: "new", to: "two", type: "order" }]
+    });
+});
@@ -0,0 +1,191 @@
+import type {
+    InjectHooksDescription,
+    InjectHooksId,
+    InjectHooksKey
+} from "./inject-hooks";
+
+export type InjectHooksGraphFormat = "json" | "dot" | "mermaid";
+export interface InjectHooksGraphNode {
+    id: InjectHooksId;
+    present: boolean;
+    phase?: InjectHooksDescription["phase"];
+    matchedBy?: InjectHooksDescription["matchedBy"];
+}
+export interface InjectHooksGraphEdge {
+    from: InjectHooksId;
+    to: InjectHooksId;
+    type: "order" | "depends" | "conflicts";
+}
+export interface InjectHooksGraph {
+    name: InjectHooksKey;
+    nodes: InjectHooksGraphNode[];
+    edges: InjectHooksGraphEdge[];
+}
+
+export function buildGraph(
+    name: InjectHooksKey,
+    description: InjectHooksDescription[]
+): InjectHooksGraph {
+    const nodes = new Map<InjectHooksId, InjectHooksGraphNode>();
+    const edges = new Map<string, InjectHooksGraphEdge>();
+    const addEdge = (
+        from: InjectHooksId,
+        to: InjectHooksId,
+        type: InjectHooksGraphEdge["type"]
+    ) => {
+        edges.set(JSON.stringify([from, to, type]), { from, to, type });
+
+        if (!nodes.has(to)) {
+            nodes.set(to, { id: to, present: false });
+        }
+    };
+
+    for (const { id, phase, matchedBy } of description) {
+        nodes.set(id, { id, present: true, phase, matchedBy });
+    }
+
+    for (const { id, phase, conditions } of description) {
+        // Ordering only applies between interceptors in the same phase, so
+        // only draw the constraints that had an effect.
+        const samePhase = (other: InjectHooksId) =>
+            nodes.get(other)?.phase === phase;
+
+        for (const before of conditions.before.filter(samePhase)) {
+            addEdge(id, before, "order");
+        }
+
+        for (const after of conditions.after.filter(samePhase)) {
+            addEdge(after, id, "order");
+        }
+
+        for (const depend of conditions.depends) {
+            addEdge(id, depend, "depends");
+        }
+
+        for (const conflict of conditions.conflicts) {
+            addEdge(id, conflict, "conflicts");
+        }
+    }
+
+    return {
+        name,
+        nodes: [...nodes.values()],
+        edges: [...edges.values()]
+    };
+}
+
+export function renderGraph(
+    graph: InjectHooksGraph,
+    format: InjectHooksGraphFormat
+): string {
+    if (format === "dot") {
+        return renderDot(graph);
+    }
+
+    if (format === "mermaid") {
+        return renderMermaid(graph);
+    }
+
+    return JSON.stringify(graph, null, 4);
+}
+
+function groupByPhase(graph: InjectHooksGraph) {
+    const phases = new Map<string, InjectHooksGraphNode[]>();
+    const absent: InjectHooksGraphNode[] = [];
+
+    for (const node of graph.nodes) {
+        if (node.phase) {
+            const list =
+                phases.get(node.phase) ||
+                phases.set(node.phase, []).get(node.phase)!;
+            list.push(node);
+        } else {
+            absent.push(node);
+        }
+    }
+
+    return { phases, absent };
+}
+
+function renderDot(graph: InjectHooksGraph): string {
+    const quote = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+    const { phases, absent } = groupByPhase(graph);
+    const lines = [`digraph ${quote(graph.name)} {`, "    rankdir=LR;"];
+
+    for (const [phase, nodes] of phases) {
+        lines.push(`    subgraph ${quote(`cluster_${phase}`)} {`);
+        lines.push(`        label=${quote(phase)};`);
+
+        for (const node of nodes) {
+            const style = node.matchedBy !== "name" ? " [shape=box]" : "";
+            lines.push(`        ${quote(node.id)}${style};`);
+        }
+
+        lines.push("    }");
+    }
+
+    for (const node of absent) {
+        lines.push(`    ${quote(node.id)} [style=dashed];`);
+    }
+
+    for (const edge of graph.edges) {
+        const attributes =
+            edge.type === "depends"
+                ? ' [style=dashed, label="depends"]'
+                : edge.type === "conflicts"
+                  ? ' [style=dotted, color=red, arrowhead=none, label="conflicts"]'
+                  : "";
+        lines.push(
+            `    ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`
+        );
+    }
+
+    lines.push("}");
+
+    return lines.join("\n") + "\n";
+}
+
+function renderMermaid(graph: InjectHooksGraph): string {
+    const keys = new Map(
+        graph.nodes.map((node, index) => [node.id, `n${index}`])
+    );
+    const label = (node: InjectHooksGraphNode) => {
+        const text = node.id.replace(/"/g, "#quot;");
+
+        return node.matchedBy !== "name" && node.present
+            ? `[["${text}"]]`
+            : `["${text}"]`;
+    };
+    const { phases, absent } = groupByPhase(graph);
+    const lines = ["flowchart LR"];
+
+    for (const [phase, nodes] of phases) {
+        lines.push(`    subgraph ${phase}`);
+
+        for (const node of nodes) {
+            lines.push(`        ${keys.get(node.id)}${label(node)}`);
+        }
+
+        lines.push("    end");
+    }
+
+    for (const node of absent) {
+        lines.push(`    ${keys.get(node.id)}${label(node)}:::absent`);
+    }
+
+    for (const edge of graph.edges) {
+        const arrow =
+            edge.type === "depends"
+                ? "-. depends .->"
+                : edge.type === "conflicts"
+                  ? "-. conflicts .-"
+                  : "-->";
+        lines.push(`    ${keys.get(edge.from)} ${arrow} ${keys.get(edge.to)}`);
+    }
+
+    if (absent.length) {
+        lines.push("    classDef absent stroke-dasharray: 5 5");
+    }
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,91 @@
+import { InjectHooks } from "./inject-hooks";
+
+interface Scenario {
+    name: string;
+    event: string;
+    setup: (hooks: InjectHooks) => void;
+}
+
+// Deterministic pseudo-random numbers so every run orders the same graph.
+function random(seed: number) {
+    return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+
+        return seed / 2147483648;
+    };
+}
+
+const scenarios: Scenario[] = [
+    {
+        name: "10000 unconstrained",
+        event: "bench",
+        setup: (hooks) => {
+            for (let i = 0; i < 10000; i += 1) {
+                hooks.inject("bench", `id${i}`, () => {});
+            }
+        }
+    },
+    {
+        name: "10000 chained, registered in reverse",
+        event: "bench",
+        setup: (hooks) => {
+            for (let i = 10000; i > 0; i -= 1) {
+                hooks.inject("bench", `id${i}`, () => {}, {
+                    after: `id${i - 1}`
+                });
+            }
+        }
+    },
+    {
+        name: "5000 with 4 random constraints each",
+        event: "bench",
+        setup: (hooks) => {
+            const next = random(1);
+
+            for (let i = 0; i < 5000; i += 1) {
+                const earlier = () => `id${Math.floor(next() * i)}`;
+                hooks.inject("bench", `id${i}`, () => {}, {
+                    after: i ? [earlier(), earlier()] : [],
+                    before: [`id${i + 1 + Math.floor(next() * 100)}`],
+                    order: (["pre", "mid", "post"] as const)[i % 3]
+                });
+            }
+        }
+    },
+    {
+        name: "10000 spread across 5 matching patterns",
+        event: "bench:form:submit",
+        setup: (hooks) => {
+            const patterns = [
+                "bench:**",
+                "bench:*:submit",
+                "**:submit",
+                "bench:{form,page}:*",
+                "*:*:submit"
+            ];
+
+            for (let i = 0; i < 10000; i += 1) {
+                hooks.inject(patterns[i % 5], `id${i}`, () => {});
+            }
+        }
+    }
+];
+
+for (const scenario of scenarios) {
+    const hooks = new InjectHooks();
+    scenario.setup(hooks);
+    const runs = 5;
+    let total = 0;
+
+    for (let run = 0; run < runs; run += 1) {
+        // Adding and removing an interceptor clears the cached order.
+        hooks
+            .inject(scenario.event, "invalidate", () => {})
+            .remove(scenario.event, "invalidate");
+        const start = performance.now();
+        hooks.describe(scenario.event);
+        total += performance.now() - start;
+    }
+
+    console.log(`${scenario.name}: ${(total / runs).toFixed(2)}ms`);
+}
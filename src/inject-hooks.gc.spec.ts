@@ -0,0 +1,42 @@
+import { execFile } from "node:child_process";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import test from "ava";
+
+// Forcing collections needs --expose-gc, which is only safe to set when Node
+// starts, so the check runs in a process of its own.
+const script = `
+const { InjectHooks, InjectHooksInternals } = await import(process.argv[1]);
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const hooks = new InjectHooks({ scheduler: "sync" });
+hooks.inject("test", "stop", () => {});
+
+for (let i = 0; i < 100; i += 1) {
+    hooks.emit("test", { i });
+}
+
+const internals = hooks[InjectHooksInternals]();
+const before = internals.getInFlight().length;
+
+// Looking at the emits keeps them alive until the next tick
+for (let i = 0; i < 5; i += 1) {
+    await sleep(10);
+    gc();
+}
+
+await sleep(10);
+console.log(JSON.stringify([before, internals.getInFlight().length]));
+`;
+
+test("emits stopped by not calling next are not kept", async (t) => {
+    const { stdout } = await promisify(execFile)(process.execPath, [
+        "--expose-gc",
+        "--import",
+        "tsx",
+        "--input-type=module",
+        "--eval",
+        script,
+        join(__dirname, "inject-hooks.ts")
+    ]);
+    t.deepEqual(JSON.parse(stdout), [100, 0]);
+});
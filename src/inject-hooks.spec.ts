@@ -1,4 +1,14 @@
-import { InjectHooks } from "./inject-hooks";
+import {
+    InjectHooks,
+    InjectHooksBatch,
+    InjectHooksCancelInfo,
+    InjectHooksErrorInfo,
+    InjectHooksLintError,
+    InjectHooksManualScheduler,
+    InjectHooksMemorySink,
+    InjectHooksTimeoutError,
+    InjectHooksValidationError
+} from "./inject-hooks";
 import test from "ava";
 
 async function sleep(ms: number) {
@@ -420,3 +430,1447 @@ test("interceptors and handlers get names passed in", async (t) => {
     await sleep(1);
     t.is(hits, 4);
 });
+
+test("emitAsync resolves with delivered data", async (t) => {
+    const hooks = new InjectHooks<{ test: string }>();
+    let handled = null;
+    hooks.inject("test", "one", (d, next) => next(`${d} one`));
+    hooks.on("test", (d) => (handled = d));
+    const result = await hooks.emitAsync("test", "zero");
+    t.deepEqual(result, { status: "delivered", data: "zero one" });
+    t.is(handled, "zero one");
+});
+
+test("emitAsync resolves as cancelled when an interceptor cancels", async (t) => {
+    const hooks = new InjectHooks();
+    let handled = false;
+    hooks.inject("test", "one", (d, next) => next(`${d} one`));
+    hooks.inject("test", "two", (d, next) => next.cancel(), { after: "one" });
+    hooks.inject("test", "three", (d, next) => next(`${d} three`), {
+        after: "two"
+    });
+    hooks.on("test", () => (handled = true));
+    const result = await hooks.emitAsync("test", "zero");
+    t.deepEqual(result, {
+        status: "cancelled",
+        data: "zero one",
+        cancelledBy: "two",
+        reason: undefined
+    });
+    t.false(handled);
+});
+
+test("emitAsync rejects when interceptors can not be ordered", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", () => {}, { depends: "two" });
+    await t.throwsAsync(() => hooks.emitAsync("test"));
+});
+
+test("ordered interceptors are reused across emits", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", (d, next) => next(`${d} one`));
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero one");
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero one");
+});
+
+test("interceptors can return a Promise instead of calling next", async (t) => {
+    const hooks = new InjectHooks<{ test: string }>();
+    hooks.inject("test", "one", async (d) => {
+        await sleep(1);
+
+        return `${d} one`;
+    });
+    hooks.inject("test", "two", (d, next) => next(`${d} two`), {
+        after: "one"
+    });
+    const result = await hooks.emitAsync("test", "zero");
+    t.is(result.data, "zero one two");
+});
+
+test("async interceptors that also call next only continue once", async (t) => {
+    const hooks = new InjectHooks();
+    let count = 0;
+    hooks.inject("test", "one", async (d, next) => {
+        next(`${d} one`);
+    });
+    hooks.on("test", () => (count += 1));
+    const result = await hooks.emitAsync("test", "zero");
+    await sleep(1);
+    t.is(result.data, "zero one");
+    t.is(count, 1);
+});
+
+test("interceptors that take next can return a Promise of nothing", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: unknown[] = [];
+    const io = (ok: boolean) => Promise.resolve(ok);
+    hooks.inject("test", "guard", (d: { ok: boolean }, next) =>
+        io(d.ok).then((ok) => {
+            if (ok) {
+                next(d);
+            }
+        })
+    );
+    hooks.on("test", (d) => calls.push(d));
+    const result = await hooks.emitAsync("test", { ok: true });
+    t.deepEqual(result, { status: "delivered", data: { ok: true } });
+    hooks.emit("test", { ok: false });
+    await sleep(20);
+    t.deepEqual(calls, [{ ok: true }]);
+});
+
+test("async interceptors can cancel", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", async (d, next) => {
+        next.cancel();
+    });
+    const result = await hooks.emitAsync("test", "zero");
+    t.is(result.status, "cancelled");
+    t.is(result.cancelledBy, "one");
+});
+
+test("emitAsync rejects when an async interceptor rejects", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", async () => {
+        throw new Error("broken");
+    });
+    await t.throwsAsync(() => hooks.emitAsync("test"), { message: "broken" });
+});
+
+test("a throwing handler does not stop other handlers", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({ onError: (info) => errors.push(info) });
+    let called = false;
+    const broken = () => {
+        throw new Error("broken");
+    };
+    hooks.on("test", broken);
+    hooks.on("test", () => (called = true));
+    hooks.emit("test", "zero");
+    await sleep(1);
+    t.true(called);
+    t.is(errors.length, 1);
+    t.is(errors[0].name, "test");
+    t.is(errors[0].data, "zero");
+    t.is(errors[0].handler, broken);
+    t.is((errors[0].error as Error).message, "broken");
+});
+
+test("a throwing interceptor stops the event and is reported", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({ onError: (info) => errors.push(info) });
+    let called = false;
+    hooks.inject("test", "one", (d, next) => next(`${d} one`));
+    hooks.inject(
+        "test",
+        "two",
+        () => {
+            throw new Error("broken");
+        },
+        { after: "one" }
+    );
+    hooks.on("test", () => (called = true));
+    await t.throwsAsync(() => hooks.emitAsync("test", "zero"), {
+        message: "broken"
+    });
+    t.false(called);
+    t.is(errors.length, 1);
+    t.is(errors[0].id, "two");
+    t.is(errors[0].data, "zero");
+});
+
+test("emitAsync rejects after all handlers run when a handler throws", async (t) => {
+    const hooks = new InjectHooks({ onError: () => {} });
+    let called = false;
+    hooks.on("test", () => {
+        throw new Error("broken");
+    });
+    hooks.on("test", () => (called = true));
+    await t.throwsAsync(() => hooks.emitAsync("test"), { message: "broken" });
+    t.true(called);
+});
+
+test("emit can be told that the event failed", (t) => {
+    const hooks = new InjectHooks({ scheduler: "sync" });
+    const calls: string[] = [];
+    const done = (d: string) => calls.push(`done ${d}`);
+    const failed = (error: unknown) =>
+        calls.push(`failed ${(error as Error).message}`);
+    hooks.inject("test", "one", (d, next) => {
+        if (d === "bad") {
+            throw new Error("interceptor");
+        }
+
+        next(d);
+    });
+    hooks.on("test", (d) => {
+        if (d === "worse") {
+            throw new Error("handler");
+        }
+    });
+    hooks.emit("test", "bad", done, failed);
+    hooks.emit("test", "worse", done, failed);
+    hooks.emit("test", "good", done, failed);
+    t.deepEqual(calls, [
+        "failed interceptor",
+        "done worse",
+        "failed handler",
+        "done good"
+    ]);
+});
+
+test("cancel passes a reason to emitAsync and onCancel", async (t) => {
+    const cancels: InjectHooksCancelInfo[] = [];
+    const hooks = new InjectHooks({ onCancel: (info) => cancels.push(info) });
+    hooks.inject("test", "one", (d, next) => next.cancel("not today"));
+    const result = await hooks.emitAsync("test", "zero");
+    t.is(result.reason, "not today");
+    t.deepEqual(cancels, [
+        { name: "test", data: "zero", id: "one", reason: "not today" }
+    ]);
+});
+
+test("calls after cancel are ignored", async (t) => {
+    const hooks = new InjectHooks();
+    let count = 0;
+    hooks.inject("test", "one", (d, next) => {
+        next.cancel("first");
+        next.cancel("second");
+        next(d);
+    });
+    hooks.on("test", () => (count += 1));
+    const result = await hooks.emitAsync("test", "zero");
+    await sleep(1);
+    t.is(result.reason, "first");
+    t.is(count, 0);
+});
+
+test("stalled interceptors raise a timeout error by default", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({
+        timeout: 5,
+        onError: (info) => errors.push(info)
+    });
+    hooks.inject("test", "stuck", () => {});
+    const error = await t.throwsAsync(() => hooks.emitAsync("test"), {
+        instanceOf: InjectHooksTimeoutError
+    });
+    t.is(error?.id, "stuck");
+    t.is(error?.event, "test");
+    t.is(errors[0].id, "stuck");
+});
+
+test("timeout policy can skip stalled interceptors", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({
+        timeoutPolicy: "skip",
+        onError: (info) => errors.push(info)
+    });
+    hooks.inject("test", "stuck", () => {}, { timeout: 5 });
+    hooks.inject("test", "two", (d, next) => next(`${d} two`), {
+        after: "stuck"
+    });
+    const result = await hooks.emitAsync("test", "zero");
+    t.is(result.status, "delivered");
+    t.is(result.data, "zero two");
+    t.is(errors.length, 1);
+    t.is(errors[0].id, "stuck");
+    t.true(errors[0].error instanceof InjectHooksTimeoutError);
+});
+
+test("timeout policy can cancel the event", async (t) => {
+    const hooks = new InjectHooks({ timeout: 5, timeoutPolicy: "cancel" });
+    hooks.inject("test", "stuck", () => {});
+    const result = await hooks.emitAsync("test", "zero");
+    t.is(result.status, "cancelled");
+    t.is(result.cancelledBy, "stuck");
+    t.true(result.reason instanceof InjectHooksTimeoutError);
+});
+
+test("interceptors can opt out of the default timeout", async (t) => {
+    const hooks = new InjectHooks({ timeout: 1 });
+    hooks.inject(
+        "test",
+        "slow",
+        async (d) => {
+            await sleep(10);
+
+            return `${d} slow`;
+        },
+        { timeout: 0 }
+    );
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero slow");
+});
+
+test("tracing records spans for the emit, interceptors and handlers", async (t) => {
+    const sink = new InjectHooksMemorySink();
+    const hooks = new InjectHooks({ trace: sink });
+    hooks.inject("test", "one", (d, next) => next(`${d} one`));
+    hooks.on("test", () => {});
+    await hooks.emitAsync("test", "zero");
+    const [interceptor, handler, emit] = sink.spans;
+    t.is(sink.spans.length, 3);
+    t.is(emit.kind, "emit");
+    t.is(emit.status, "ok");
+    t.is(emit.input, "zero");
+    t.is(emit.output, "zero one");
+    t.is(interceptor.kind, "interceptor");
+    t.is(interceptor.id, "one");
+    t.is(interceptor.input, "zero");
+    t.is(interceptor.output, "zero one");
+    t.is(interceptor.parentId, emit.spanId);
+    t.is(handler.kind, "handler");
+    t.is(handler.parentId, emit.spanId);
+    t.true(emit.duration! >= 0);
+    t.deepEqual(sink.trace(emit.traceId), sink.spans);
+});
+
+test("tracing sinks that throw do not stop the event", async (t) => {
+    const errors: unknown[] = [];
+    const hooks = new InjectHooks({
+        trace: {
+            record: () => {
+                throw new Error("sink");
+            }
+        },
+        onError: ({ error }) => errors.push(error)
+    });
+    hooks.inject("test", "one", (d, next) => next(d));
+    hooks.on("test", () => {});
+    t.is((await hooks.emitAsync("test", 1)).status, "delivered");
+    t.is(errors.length, 3);
+});
+
+test("tracing links nested emits to the span that made them", async (t) => {
+    const sink = new InjectHooksMemorySink();
+    const hooks = new InjectHooks({ trace: sink });
+    hooks.on("outer", () => hooks.emit("inner"));
+    await hooks.emitAsync("outer");
+    await sleep(1);
+    const outer = sink.spans.find(
+        (span) => span.kind === "emit" && span.name === "outer"
+    )!;
+    const handler = sink.spans.find((span) => span.kind === "handler")!;
+    const inner = sink.spans.find(
+        (span) => span.kind === "emit" && span.name === "inner"
+    )!;
+    t.is(inner.traceId, outer.traceId);
+    t.is(inner.parentId, handler.spanId);
+    t.is(inner.depth, 2);
+});
+
+test("tracing marks cancelled and failed steps", async (t) => {
+    const sink = new InjectHooksMemorySink();
+    const hooks = new InjectHooks({ trace: sink, onError: () => {} });
+    hooks.inject("cancel", "one", (d, next) => next.cancel("nope"));
+    hooks.inject("fail", "one", () => {
+        throw new Error("broken");
+    });
+    await hooks.emitAsync("cancel");
+    await t.throwsAsync(() => hooks.emitAsync("fail"));
+    t.deepEqual(
+        sink.spans.map((span) => `${span.name} ${span.kind} ${span.status}`),
+        [
+            "cancel interceptor cancelled",
+            "cancel emit cancelled",
+            "fail interceptor error",
+            "fail emit error"
+        ]
+    );
+});
+
+test("describe lists interceptors in order with their details", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "two", () => {}, { after: "one" });
+    hooks.inject("test", "one", () => {});
+    hooks.inject((name) => name === "test", "zero", () => {}, {
+        order: "pre"
+    });
+    const description = hooks.describe("test");
+    t.deepEqual(
+        description.map((item) => [item.id, item.phase, item.matchedBy]),
+        [
+            ["zero", "pre", "filter"],
+            ["one", "mid", "name"],
+            ["two", "mid", "name"]
+        ]
+    );
+    t.deepEqual(description[2].conditions.after, ["one"]);
+});
+
+test("describe throws when interceptors can not be ordered", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "one", () => {}, { depends: "two" });
+    t.throws(() => hooks.describe("test"));
+});
+
+test("use registers interceptors and handlers and unuse removes them", async (t) => {
+    const hooks = new InjectHooks<{ test: string; other: string }>();
+    const seen: string[] = [];
+    hooks.use({
+        name: "plugin",
+        version: "1.0.0",
+        interceptors: [
+            { name: "test", interceptor: (d, next) => next(`${d} plugin`) },
+            {
+                name: "test",
+                id: "plugin:second",
+                interceptor: (d, next) => next(`${d} second`),
+                conditions: { after: "plugin" }
+            }
+        ],
+        handlers: [{ name: "other", handler: (d) => seen.push(d) }]
+    });
+    t.deepEqual(
+        hooks.describe("test").map((item) => item.id),
+        ["plugin", "plugin:second"]
+    );
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero plugin second");
+    await hooks.emitAsync("other", "one");
+    t.deepEqual(seen, ["one"]);
+    hooks.unuse("plugin");
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero");
+    await hooks.emitAsync("other", "two");
+    t.deepEqual(seen, ["one"]);
+});
+
+test("use rolls back the plugin when it fails validation", async (t) => {
+    const hooks = new InjectHooks();
+    const seen: string[] = [];
+    t.throws(() =>
+        hooks.use({
+            name: "plugin",
+            interceptors: [
+                { name: "one", interceptor: (d, next) => next(d) },
+                {
+                    name: "two",
+                    interceptor: (d, next) => next(d),
+                    conditions: { depends: "missing" }
+                }
+            ],
+            handlers: [{ name: "one", handler: (d) => seen.push(d) }]
+        })
+    );
+    t.deepEqual(hooks.describe("one"), []);
+    t.deepEqual(hooks.describe("two"), []);
+    await hooks.emitAsync("one", "zero");
+    t.deepEqual(seen, []);
+    t.throws(() => hooks.unuse("plugin"));
+});
+
+test("use checks plugin dependencies and conflicts", (t) => {
+    const hooks = new InjectHooks();
+    t.throws(() => hooks.use({ name: "two", depends: "one" }), {
+        message: /requires missing plugin one/
+    });
+    hooks.use({ name: "one" });
+    hooks.use({ name: "two", depends: "one" });
+    t.throws(() => hooks.use({ name: "one" }), { message: /already in use/ });
+    t.throws(() => hooks.use({ name: "three", conflicts: ["two"] }), {
+        message: /three conflicts with two/
+    });
+    t.throws(() => hooks.unuse("one"), { message: /two requires one/ });
+    hooks.unuse("two");
+    hooks.unuse("one");
+    t.pass();
+});
+
+test("patterns can be used to listen for events", async (t) => {
+    const hooks = new InjectHooks();
+    const seen: string[] = [];
+    const handler = (data: string, name: string) => seen.push(name);
+    hooks.on("login:*", handler);
+    hooks.once("**:submit", handler);
+    await hooks.emitAsync("login:submit");
+    await hooks.emitAsync("login:form:submit");
+    await hooks.emitAsync("login:reset");
+    t.deepEqual(seen, ["login:submit", "login:submit", "login:reset"]);
+    hooks.off("login:*", handler);
+    await hooks.emitAsync("login:reset");
+    t.is(seen.length, 3);
+});
+
+test("patterns can be used for interceptors", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("users:{row,column}:hover", "one", (d, next) =>
+        next(`${d} one`)
+    );
+    t.is((await hooks.emitAsync("users:row:hover", "zero")).data, "zero one");
+    t.is((await hooks.emitAsync("users:cell:hover", "zero")).data, "zero");
+    t.deepEqual(
+        hooks.describe("users:column:hover").map((item) => item.matchedBy),
+        ["pattern"]
+    );
+    hooks.remove("users:{row,column}:hover", "one");
+    t.is((await hooks.emitAsync("users:row:hover", "zero")).data, "zero");
+});
+
+test("patterns only clear cached ordering for names they match", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("login:submit", "one", (d, next) => next(`${d} one`));
+    hooks.inject("users:hover", "one", (d, next) => next(`${d} one`));
+    hooks.validate();
+    const before = hooks.describe("users:hover");
+    hooks.inject("login:*", "two", (d, next) => next(`${d} two`), {
+        after: "one"
+    });
+    t.is((await hooks.emitAsync("login:submit", "zero")).data, "zero one two");
+    t.is((await hooks.emitAsync("users:hover", "zero")).data, "zero one");
+    t.deepEqual(hooks.describe("users:hover"), before);
+});
+
+test("pattern interceptors can not reuse an ID from the event", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("login:submit", "one", () => {});
+    hooks.inject("login:*", "one", () => {});
+    t.throws(() => hooks.validate(), { message: /ID already exists: one/ });
+});
+
+test("removing a filter interceptor clears cached ordering", async (t) => {
+    const hooks = new InjectHooks();
+    const filter = () => true;
+    hooks.inject(filter, "one", (d, next) => next(`${d} one`));
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero one");
+    hooks.remove(filter, "one");
+    t.is((await hooks.emitAsync("test", "zero")).data, "zero");
+});
+
+test("circular dependency errors name only the cycle", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "start", () => {}, { before: "b" });
+    hooks.inject("test", "a", () => {}, { before: "b" });
+    hooks.inject("test", "b", () => {}, { before: "c" });
+    hooks.inject("test", "c", () => {}, { before: "a" });
+    hooks.inject("test", "downstream", () => {}, { after: "c" });
+    t.throws(() => hooks.validate(), {
+        message: "InjectHooks - Circular dependencies: a -> b -> c -> a"
+    });
+});
+
+test("interceptors referencing themselves are reported as a cycle", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "a", () => {}, { after: "a" });
+    t.throws(() => hooks.validate(), {
+        message: "InjectHooks - Circular dependencies: a -> a"
+    });
+});
+
+test("unconstrained interceptors keep registration order", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "c", () => {});
+    hooks.inject((name) => name === "test", "b", () => {});
+    hooks.inject("test", "a", () => {}, { before: "c" });
+    hooks.inject("test", "d", () => {}, { after: "a" });
+    t.deepEqual(
+        hooks.describe("test").map((item) => item.id),
+        ["b", "a", "c", "d"]
+    );
+});
+
+// How long this takes is measured by npm run bench
+test("a long chain of interceptors is ordered", (t) => {
+    const hooks = new InjectHooks();
+    const count = 5000;
+
+    for (let i = count; i > 0; i -= 1) {
+        hooks.inject("test", `id${i}`, () => {}, { after: `id${i - 1}` });
+    }
+
+    const ids = hooks.describe("test").map((item) => item.id);
+    t.is(ids[0], "id1");
+    t.is(ids[count - 1], `id${count}`);
+});
+
+test("instances can declare their own phases", async (t) => {
+    const hooks = new InjectHooks({
+        phases: ["auth", "validation", "persistence", "audit"],
+        defaultPhase: "validation"
+    });
+    hooks.inject("save", "audit", (d, next) => next(`${d} audit`), {
+        order: "audit"
+    });
+    hooks.inject("save", "check", (d, next) => next(`${d} check`));
+    hooks.inject("save", "auth", (d, next) => next(`${d} auth`), {
+        order: "auth"
+    });
+    t.deepEqual(
+        hooks.describe("save").map((item) => [item.id, item.phase]),
+        [
+            ["auth", "auth"],
+            ["check", "validation"],
+            ["audit", "audit"]
+        ]
+    );
+    t.is((await hooks.emitAsync("save", "zero")).data, "zero auth check audit");
+});
+
+test("phases can be declared per event", (t) => {
+    const hooks = new InjectHooks({
+        eventPhases: { save: ["first", "mid", "last"] }
+    });
+    hooks.inject("save", "one", () => {}, { order: "last" });
+    hooks.inject("save", "two", () => {}, { order: "first" });
+    t.deepEqual(
+        hooks.describe("save").map((item) => item.id),
+        ["two", "one"]
+    );
+    hooks.inject("other", "one", () => {}, { order: "last" });
+    t.throws(() => hooks.describe("other"), {
+        message: "InjectHooks - one uses undeclared phase last"
+    });
+});
+
+test("priority breaks ties within a phase", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("test", "a", () => {}, { priority: 10 });
+    hooks.inject("test", "b", () => {});
+    hooks.inject("test", "c", () => {}, { priority: -5 });
+    hooks.inject("test", "d", () => {}, { priority: -10, after: "a" });
+    t.deepEqual(
+        hooks.describe("test").map((item) => item.id),
+        ["c", "b", "a", "d"]
+    );
+});
+
+test("scopes run parent and own interceptors together", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("save", "parent", (d, next) => next(`${d} parent`));
+    const scope = hooks.createScope("widget");
+    scope.inject("save", "early", (d, next) => next(`${d} early`), {
+        order: "pre"
+    });
+    scope.inject("save", "child", (d, next) => next(`${d} child`));
+    hooks.inject("save", "late", (d, next) => next(`${d} late`), {
+        before: "child"
+    });
+    t.is(scope.scopeName, "widget");
+    t.deepEqual(
+        scope.describe("save").map((item) => item.id),
+        ["early", "parent", "late", "child"]
+    );
+    t.is(
+        (await scope.emitAsync("save", "zero")).data,
+        "zero early parent late child"
+    );
+    t.is((await hooks.emitAsync("save", "zero")).data, "zero parent late");
+});
+
+test("scopes reject IDs already used by the parent", (t) => {
+    const hooks = new InjectHooks();
+    const scope = hooks.createScope("widget");
+    hooks.inject("save", "audit", () => {});
+    scope.inject("save", "audit", () => {});
+    t.throws(() => scope.validate(), {
+        message: "InjectHooks - ID already exists: audit"
+    });
+    t.notThrows(() => hooks.validate());
+});
+
+test("scopes only reach parent handlers when bubbling", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: string[] = [];
+    hooks.on("save", (d) => calls.push(`parent ${d}`));
+    const quiet = hooks.createScope("quiet");
+    const loud = hooks.createScope("loud", { bubble: true });
+    quiet.on("save", (d) => calls.push(`quiet ${d}`));
+    loud.on("save", (d) => calls.push(`loud ${d}`));
+    await quiet.emitAsync("save", 1);
+    await loud.emitAsync("save", 2);
+    t.deepEqual(calls, ["quiet 1", "loud 2", "parent 2"]);
+});
+
+test("dispose removes everything a scope registered", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: string[] = [];
+    const scope = hooks.createScope("widget", { bubble: true });
+    const nested = scope.createScope("nested");
+    scope.inject("save", "child", (d, next) => next(`${d} child`));
+    scope.on("save:*", (d) => calls.push(`scope ${d}`));
+    nested.on("save", (d) => calls.push(`nested ${d}`));
+    scope.dispose();
+    t.deepEqual(scope.describe("save"), []);
+    await scope.emitAsync("save:one", 1);
+    await nested.emitAsync("save", 2);
+    t.deepEqual(calls, []);
+
+    // A disposed scope no longer sees its parent
+    hooks.inject("save", "parent", () => {});
+    t.deepEqual(scope.describe("save"), []);
+});
+
+test("parent changes reach scopes with cached orderings", (t) => {
+    const hooks = new InjectHooks();
+    const scope = hooks.createScope("widget");
+    scope.inject("save", "child", () => {});
+    t.deepEqual(
+        scope.describe("save").map((item) => item.id),
+        ["child"]
+    );
+    hooks.inject("s*", "parent", () => {}, { before: "child" });
+    t.deepEqual(
+        scope.describe("save").map((item) => item.id),
+        ["parent", "child"]
+    );
+    hooks.remove("s*", "parent");
+    t.deepEqual(
+        scope.describe("save").map((item) => item.id),
+        ["child"]
+    );
+});
+
+test("handlers are removed when their signal aborts", async (t) => {
+    const hooks = new InjectHooks();
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const handler = (d: string) => calls.push(`on ${d}`);
+    hooks.on("save", handler, { signal: controller.signal });
+    hooks.once("save", (d) => calls.push(`once ${d}`), {
+        signal: controller.signal
+    });
+    hooks.on("save", (d) => calls.push(`aborted ${d}`), {
+        signal: AbortSignal.abort()
+    });
+    await hooks.emitAsync("save", "a");
+    controller.abort();
+    await hooks.emitAsync("save", "b");
+    t.deepEqual(calls, ["on a", "once a"]);
+    t.throws(() => hooks.off("save", handler), {
+        message: "InjectHooks - save handler not found"
+    });
+});
+
+test("removing by hand and aborting later is harmless", async (t) => {
+    const hooks = new InjectHooks();
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const handler = (d: string) => calls.push(d);
+    hooks.on("save", handler, { signal: controller.signal });
+    hooks.off("save", handler);
+    hooks.on("save", handler);
+    controller.abort();
+    await hooks.emitAsync("save", "a");
+    t.deepEqual(calls, ["a"]);
+});
+
+test("interceptors are removed when their signal aborts", async (t) => {
+    const hooks = new InjectHooks();
+    const controller = new AbortController();
+    hooks.inject(
+        "save",
+        "upper",
+        (d: string, next) => next(d.toUpperCase()),
+        { signal: controller.signal }
+    );
+    hooks.inject("save", "never", () => {}, { signal: AbortSignal.abort() });
+    t.is((await hooks.emitAsync("save", "a")).data, "A");
+    controller.abort();
+    t.is((await hooks.emitAsync("save", "a")).data, "a");
+
+    // The ID is free to use again
+    hooks.inject("save", "upper", () => {});
+    t.deepEqual(
+        hooks.describe("save").map((item) => item.id),
+        ["upper"]
+    );
+});
+
+test("subscribe returns a disposable handle", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: string[] = [];
+
+    {
+        using subscription = hooks.subscribe("save", (d) => calls.push(d));
+        t.false(subscription.closed);
+        await hooks.emitAsync("save", "a");
+    }
+
+    await hooks.emitAsync("save", "b");
+    const once = hooks.subscribe("save", (d) => calls.push(`once ${d}`), {
+        once: true
+    });
+    await hooks.emitAsync("save", "c");
+    await hooks.emitAsync("save", "d");
+    t.true(once.closed);
+    t.deepEqual(calls, ["a", "once c"]);
+});
+
+test("subscriptions follow an outer signal", async (t) => {
+    const hooks = new InjectHooks();
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const subscription = hooks.subscribe("save", (d) => calls.push(d), {
+        signal: controller.signal
+    });
+    controller.abort();
+    await hooks.emitAsync("save", "a");
+    t.true(subscription.closed);
+    t.deepEqual(calls, []);
+});
+
+test("intercept returns a disposable handle", async (t) => {
+    const hooks = new InjectHooks();
+    const subscription = hooks.intercept("save", "upper", (d: string, next) =>
+        next(d.toUpperCase())
+    );
+    t.is((await hooks.emitAsync("save", "a")).data, "A");
+    subscription.unsubscribe();
+    t.is((await hooks.emitAsync("save", "a")).data, "a");
+    hooks.inject("save", "taken", () => {});
+    t.throws(() => hooks.intercept("save", "taken", () => {}), {
+        message: "InjectHooks - ID already exists: taken"
+    });
+});
+
+test("sticky events are replayed to late handlers", async (t) => {
+    const hooks = new InjectHooks({ scheduler: "sync" });
+    const calls: string[] = [];
+    hooks.sticky("loaded");
+    hooks.inject("loaded", "upper", (d: string, next) =>
+        next(d.toUpperCase())
+    );
+    await hooks.emitAsync("loaded", "a");
+    hooks.on("loaded", (d, name) => calls.push(`${name} ${d}`));
+    t.deepEqual(calls, ["loaded A"]);
+    await hooks.emitAsync("loaded", "b");
+    t.deepEqual(calls, ["loaded A", "loaded B"]);
+
+    // Only delivered payloads are kept
+    hooks.inject("loaded", "stop", (d, next) => next.cancel());
+    await hooks.emitAsync("loaded", "c");
+    hooks.on("l*", (d, name) => calls.push(`pattern ${name} ${d}`));
+    t.deepEqual(calls, ["loaded A", "loaded B", "pattern loaded B"]);
+});
+
+test("sticky events can replay several payloads", async (t) => {
+    const hooks = new InjectHooks({ scheduler: "sync" });
+    const calls: string[] = [];
+    hooks.sticky("progress", 2);
+
+    for (const step of ["a", "b", "c"]) {
+        await hooks.emitAsync("progress", step);
+    }
+
+    hooks.on("progress", (d) => calls.push(`on ${d}`));
+    hooks.once("progress", (d) => calls.push(`once ${d}`));
+    hooks.subscribe("progress", (d) => calls.push(`subscribe ${d}`), {
+        once: true
+    });
+    t.deepEqual(calls, ["on b", "on c", "once c", "subscribe b"]);
+    await hooks.emitAsync("progress", "d");
+    t.deepEqual(calls, ["on b", "on c", "once c", "subscribe b", "on d"]);
+    hooks.sticky("progress", 1);
+    hooks.on("progress", (d) => calls.push(`late ${d}`));
+    t.is(calls.pop(), "late d");
+    t.throws(() => hooks.sticky("progress", 0), {
+        message: "InjectHooks - progress sticky size must be at least 1"
+    });
+});
+
+test("sticky payloads can be cleared", async (t) => {
+    const hooks = new InjectHooks({ scheduler: "sync" });
+    const calls: string[] = [];
+    hooks.sticky("one").sticky("two");
+    await hooks.emitAsync("one", 1);
+    await hooks.emitAsync("two", 2);
+    hooks.clearSticky("one");
+    hooks.on(() => true, (d, name) => calls.push(`${name} ${d}`));
+    t.deepEqual(calls, ["two 2"]);
+    hooks.clearSticky();
+    hooks.on("two", (d, name) => calls.push(`${name} ${d}`));
+    t.deepEqual(calls, ["two 2"]);
+
+    // Still sticky after clearing
+    await hooks.emitAsync("one", 3);
+    hooks.on("one", (d, name) => calls.push(`late ${name} ${d}`));
+    t.deepEqual(calls, ["two 2", "one 3", "late one 3"]);
+});
+
+test("handlers removed before a replay are not called", (t) => {
+    const scheduler = new InjectHooksManualScheduler();
+    const hooks = new InjectHooks({ scheduler: scheduler.schedule });
+    const calls: string[] = [];
+    const handler = (d: string) => calls.push(d);
+    hooks.sticky("loaded");
+    hooks.emit("loaded", "a");
+    scheduler.flush();
+    hooks.on("loaded", handler).off("loaded", handler);
+    t.is(scheduler.flush(), 1);
+    t.deepEqual(calls, []);
+});
+
+test("waitFor resolves with the next matching payload", async (t) => {
+    const hooks = new InjectHooks();
+    let checked = 0;
+    hooks.inject("page", "upper", (d: string, next) =>
+        next(d.toUpperCase())
+    );
+    const any = hooks.waitFor("page");
+    const second = hooks.waitFor((name) => name.startsWith("pa"), {
+        predicate: (data) => {
+            checked += 1;
+
+            return data === "B";
+        }
+    });
+    hooks.emit("page", "a").emit("page", "b");
+    t.is(await any, "A");
+    t.is(await second, "B");
+
+    // The handler is removed once the Promise settles
+    await hooks.emitAsync("page", "c");
+    t.is(checked, 2);
+});
+
+test("waitFor can time out or be aborted", async (t) => {
+    const hooks = new InjectHooks();
+    await t.throwsAsync(hooks.waitFor("page", { timeout: 10 }), {
+        message: "InjectHooks - timed out after 10ms waiting for page"
+    });
+    const controller = new AbortController();
+    const aborted = hooks.waitFor("page", { signal: controller.signal });
+    controller.abort(new Error("gone"));
+    await t.throwsAsync(aborted, { message: "gone" });
+    await t.throwsAsync(
+        hooks.waitFor("page", {
+            signal: AbortSignal.abort(new Error("early"))
+        }),
+        { message: "early" }
+    );
+    const broken = hooks.waitFor("page", {
+        predicate: () => {
+            throw new Error("bad predicate");
+        }
+    });
+    hooks.emit("page");
+    await t.throwsAsync(broken, { message: "bad predicate" });
+});
+
+test("waitFor sees stored payloads of sticky events", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.sticky("loaded");
+    await hooks.emitAsync("loaded", "config");
+    t.is(await hooks.waitFor("loaded", { timeout: 100 }), "config");
+});
+
+test("events can be iterated", async (t) => {
+    const hooks = new InjectHooks();
+    const seen: number[] = [];
+    const iterator = hooks.events("tick");
+    hooks.emit("tick", 1).emit("tick", 2).emit("stop");
+    hooks.waitFor("stop").then(() => hooks.emit("tick", 3));
+
+    for await (const data of iterator) {
+        seen.push(data);
+
+        if (data === 3) {
+            break;
+        }
+    }
+
+    t.deepEqual(seen, [1, 2, 3]);
+
+    // Breaking out of the loop removed the handler
+    await hooks.emitAsync("tick", 4);
+    t.deepEqual(await iterator.next(), { value: undefined, done: true });
+});
+
+test("events keeps a bounded buffer", async (t) => {
+    const hooks = new InjectHooks();
+    const read = async (iterator: AsyncIterableIterator<unknown>) => {
+        const values = [];
+
+        for (let i = 0; i < 2; i += 1) {
+            values.push((await iterator.next()).value);
+        }
+
+        return values;
+    };
+    const oldest = hooks.events("tick", { buffer: 2 });
+    const newest = hooks.events("tick", {
+        buffer: 2,
+        overflowPolicy: "drop-newest"
+    });
+    const strict = hooks.events("tick", {
+        buffer: 2,
+        overflowPolicy: "error"
+    });
+
+    for (const data of [1, 2, 3]) {
+        await hooks.emitAsync("tick", data);
+    }
+
+    t.deepEqual(await read(oldest), [2, 3]);
+    t.deepEqual(await read(newest), [1, 2]);
+    await t.throwsAsync(strict.next(), {
+        message: "InjectHooks - more than 2 events waiting to be read"
+    });
+    t.deepEqual(await strict.next(), { value: undefined, done: true });
+});
+
+test("events ends when its signal aborts", async (t) => {
+    const hooks = new InjectHooks();
+    const controller = new AbortController();
+    const iterator = hooks.events((name) => name === "tick", {
+        signal: controller.signal
+    });
+    const pending = iterator.next();
+    controller.abort(new Error("stopped"));
+    await t.throwsAsync(pending, { message: "stopped" });
+    t.deepEqual(await iterator.next(), { value: undefined, done: true });
+});
+
+test("payloads are checked against the event schema", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: unknown[] = [];
+    hooks.schema("save", { id: "number", tags: ["string"] });
+    hooks.on("save", (d) => calls.push(d));
+    t.throws(() => hooks.emit("save", { id: "1", tags: [] }), {
+        instanceOf: InjectHooksValidationError,
+        message:
+            "InjectHooks - invalid payload for save at id: expected number, got string"
+    });
+    const error = await t.throwsAsync(
+        hooks.emitAsync("save", { id: 1, tags: [2] }),
+        { instanceOf: InjectHooksValidationError }
+    );
+    t.deepEqual(error?.issues, [
+        { path: "tags[0]", message: "expected string, got number" }
+    ]);
+    await hooks.emitAsync("save", { id: 1, tags: ["a"] });
+    t.is(calls.length, 1);
+});
+
+test("schemas can check payloads again after the interceptors", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({ onError: (info) => errors.push(info) });
+    const calls: unknown[] = [];
+    hooks.schema("save", { id: "number" }, { afterInterceptors: true });
+    hooks.inject("save", "break", (d: { id: number }, next) =>
+        next({ id: `${d.id}` })
+    );
+    hooks.on("save", (d) => calls.push(d));
+    await t.throwsAsync(hooks.emitAsync("save", { id: 1 }), {
+        message:
+            "InjectHooks - invalid payload for save after interceptors at id: expected number, got string"
+    });
+    t.is(errors.length, 1);
+    t.deepEqual(calls, []);
+});
+
+test("validators that throw reject the payload", async (t) => {
+    const hooks = new InjectHooks({ onError: () => {} });
+    const valid = (d: { user?: { name: string } }) => d.user!.name.length > 0;
+    hooks.schema("save", valid);
+    hooks.schema("load", valid, { afterInterceptors: true });
+    hooks.inject("load", "drop", (d, next) => next({}));
+    t.throws(() => hooks.emit("save", {}), {
+        instanceOf: InjectHooksValidationError
+    });
+    await t.throwsAsync(hooks.emitAsync("load", { user: { name: "a" } }), {
+        instanceOf: InjectHooksValidationError
+    });
+});
+
+test("scopes use their parent's schemas", (t) => {
+    const hooks = new InjectHooks();
+    const scope = hooks.createScope("widget");
+    hooks.schema("save", "string");
+    t.throws(() => scope.emit("save", 1), {
+        instanceOf: InjectHooksValidationError
+    });
+    scope.schema("save", "number");
+    t.notThrows(() => scope.emit("save", 1));
+});
+
+test("bail events stop at the first handler that returns a value", async (t) => {
+    const hooks = new InjectHooks<{ resolve: string }>();
+    const calls: string[] = [];
+    hooks.kind("resolve", "bail");
+    hooks.on("resolve", () => {
+        calls.push("a");
+    });
+    hooks.on("resolve", async (d) => {
+        calls.push("b");
+        await sleep(5);
+
+        return `${d}.js`;
+    });
+    hooks.on("resolve", () => {
+        calls.push("c");
+
+        return "never";
+    });
+    const result = await hooks.invoke<"resolve", string>("resolve", "main");
+    t.is(result.result, "main.js");
+    t.deepEqual(calls, ["a", "b"]);
+});
+
+test("waterfall events pass each return value on", async (t) => {
+    const hooks = new InjectHooks<{ title: string }>();
+    hooks.kind("title", "waterfall");
+    hooks.inject("title", "trim", (d: string, next) => next(d.trim()));
+    hooks.on("title", (d) => d.toUpperCase());
+    hooks.on("title", () => undefined);
+    hooks.on("title", async (d) => `${d}!`);
+    const result = await hooks.invoke("title", "  hello ");
+    t.is(result.data, "hello");
+    t.is(result.result, "HELLO!");
+});
+
+test("collect and parallel events gather every return value", async (t) => {
+    const hooks = new InjectHooks<{ menu: string; load: number }>();
+    const order: string[] = [];
+    hooks.kind("menu", "collect").kind("load", "parallel");
+    hooks.on("menu", (d) => `${d}:open`);
+    hooks.on("menu", async (d) => `${d}:save`);
+    hooks.on("load", async (d) => {
+        order.push("slow start");
+        await sleep(20);
+        order.push("slow end");
+
+        return d * 2;
+    });
+    hooks.on("load", async (d) => {
+        order.push("fast start");
+
+        return d * 3;
+    });
+    const menu = await hooks.invoke<"menu", string[]>("menu", "file");
+    t.deepEqual(menu.result, ["file:open", "file:save"]);
+    const load = await hooks.invoke<"load", number[]>("load", 2);
+    t.deepEqual(load.result, [4, 6]);
+    t.deepEqual(order, ["slow start", "fast start", "slow end"]);
+});
+
+test("once handlers add one value to collected results", async (t) => {
+    const hooks = new InjectHooks<{ menu: string }>();
+    const b = (d: string) => `${d}:b`;
+    hooks.kind("menu", "collect");
+    hooks.on("menu", (d) => `${d}:a`);
+    hooks.once("menu", (d) => `${d}:b`);
+    hooks.once("menu", b);
+    hooks.off("menu", b);
+    const first = await hooks.invoke<"menu", string[]>("menu", "one");
+    t.deepEqual(first.result, ["one:a", "one:b"]);
+    const second = await hooks.invoke<"menu", string[]>("menu", "two");
+    t.deepEqual(second.result, ["two:a"]);
+});
+
+test("hook kinds reject with handler errors", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({ onError: (info) => errors.push(info) });
+    const calls: string[] = [];
+    hooks.kind("series", "collect").kind("together", "parallel");
+    hooks.on("series", async () => {
+        throw new Error("first");
+    });
+    hooks.on("series", () => calls.push("series"));
+    hooks.on("together", async () => {
+        throw new Error("second");
+    });
+    hooks.on("together", async () => {
+        await sleep(5);
+        calls.push("together");
+    });
+    await t.throwsAsync(hooks.invoke("series"), { message: "first" });
+    await t.throwsAsync(hooks.invoke("together"), { message: "second" });
+    t.deepEqual(calls, ["together"]);
+    t.is(errors.length, 2);
+    t.throws(() => hooks.kind("series", "nope" as "bail"), {
+        message: "InjectHooks - unknown hook kind: nope"
+    });
+});
+
+test("cancelled hook kinds have no result and scopes inherit kinds", async (t) => {
+    const hooks = new InjectHooks();
+    const scope = hooks.createScope("widget");
+    hooks.kind("pick", "bail");
+    scope.on("pick", () => "scope");
+    t.is((await scope.invoke("pick")).result, "scope");
+    t.false("result" in (await hooks.emitAsync("other")));
+    hooks.inject("pick", "block", (_d, next) => next.cancel());
+    const cancelled = await scope.invoke("pick");
+    t.is(cancelled.status, "cancelled");
+    t.is(cancelled.result, undefined);
+});
+
+test("replaces takes over another interceptor's slot", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: string[] = [];
+    const add = (id: string, conditions = {}) =>
+        hooks.inject(
+            "load",
+            id,
+            (d, next) => {
+                calls.push(id);
+                next(d);
+            },
+            conditions
+        );
+    add("core:fetch", { order: "pre", after: "core:auth" });
+    add("core:auth", { order: "pre" });
+    add("render", { after: "core:fetch", depends: "core:fetch" });
+    add("cache:fetch", { replaces: "core:fetch" });
+    const ids = () => hooks.describe("load").map((item) => item.id);
+    t.deepEqual(ids(), ["core:auth", "cache:fetch", "render"]);
+    t.is(hooks.describe("load")[1].phase, "pre");
+    await hooks.emitAsync("load");
+    t.deepEqual(calls, ["core:auth", "cache:fetch", "render"]);
+    hooks.remove("load", "cache:fetch");
+    t.deepEqual(ids(), ["core:auth", "core:fetch", "render"]);
+});
+
+test("two interceptors can not replace the same ID", (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("load", "core:fetch", () => {});
+    hooks.inject("load", "cache:fetch", () => {}, { replaces: "core:fetch" });
+    hooks.inject("load", "offline:fetch", () => {}, {
+        replaces: "core:fetch"
+    });
+    t.throws(() => hooks.validate("load"), {
+        message:
+            "InjectHooks - cache:fetch and offline:fetch both replace core:fetch"
+    });
+    hooks.remove("load", "offline:fetch");
+    t.notThrows(() => hooks.validate("load"));
+});
+
+test("interceptors can be disabled and enabled again", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("save", "a", (d: string, next) => next(`${d}a`));
+    hooks.inject("save", "b", (d: string, next) => next(`${d}b`), {
+        after: "a"
+    });
+    hooks.disable("save", "a");
+    t.is((await hooks.emitAsync("save", "")).data, "b");
+    t.deepEqual(
+        hooks.describe("save").map((item) => item.id),
+        ["a", "b"]
+    );
+    hooks.enable("save", "a");
+    t.is((await hooks.emitAsync("save", "")).data, "ab");
+    t.throws(() => hooks.disable("save", "missing"), {
+        message: "InjectHooks - save interceptor missing not found"
+    });
+});
+
+test("disabling can depend on each payload", async (t) => {
+    const hooks = new InjectHooks<{ save: { beta: boolean; out?: string } }>();
+    hooks.inject("save", "new-ui", (d, next) => next({ ...d, out: "new" }));
+    hooks.enable("save", "new-ui", (d) => d.beta);
+    t.is((await hooks.emitAsync("save", { beta: true })).data.out, "new");
+    t.is((await hooks.emitAsync("save", { beta: false })).data.out, undefined);
+    hooks.disable("save", "new-ui", (d) => d.beta);
+    t.is((await hooks.emitAsync("save", { beta: true })).data.out, undefined);
+    t.is((await hooks.emitAsync("save", { beta: false })).data.out, "new");
+});
+
+test("interceptors that depend on a disabled one are skipped", async (t) => {
+    const sink = new InjectHooksMemorySink();
+    const hooks = new InjectHooks({ trace: sink });
+    const calls: string[] = [];
+    const add = (id: string, conditions = {}) =>
+        hooks.inject(
+            "save",
+            id,
+            (d, next) => {
+                calls.push(id);
+                next(d);
+            },
+            conditions
+        );
+    add("late", { order: "post", depends: "middle" });
+    add("middle", { depends: "base" });
+    add("base", { order: "pre" });
+    add("other");
+    hooks.disable("save", "base");
+    await hooks.emitAsync("save");
+    t.deepEqual(calls, ["other"]);
+    t.deepEqual(
+        sink.spans
+            .filter((span) => span.status === "skipped")
+            .map((span) => span.id),
+        ["base", "middle", "late"]
+    );
+});
+
+test("handlers can be disabled and enabled again", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: number[] = [];
+    const handler = (d: number) => calls.push(d);
+    hooks.on("count", handler);
+    hooks.disableHandler("count", handler);
+    await hooks.emitAsync("count", 1);
+    hooks.enableHandler("count", handler, (d) => d % 2 === 0);
+    await hooks.emitAsync("count", 2);
+    await hooks.emitAsync("count", 3);
+    hooks.enableHandler("count", handler);
+    await hooks.emitAsync("count", 5);
+    t.deepEqual(calls, [2, 5]);
+    t.throws(() => hooks.disableHandler("other", handler), {
+        message: "InjectHooks - other handler not found"
+    });
+});
+
+test("predicates that throw stop the emit", async (t) => {
+    const errors: InjectHooksErrorInfo[] = [];
+    const hooks = new InjectHooks({ onError: (info) => errors.push(info) });
+    const calls: string[] = [];
+    const handler = () => calls.push("handler");
+    const broken = () => {
+        throw new Error("flag");
+    };
+    hooks.inject("save", "one", (d, next) => next(d));
+    hooks.disable("save", "one", broken);
+    hooks.on("save", handler);
+    await t.throwsAsync(hooks.emitAsync("save"), { message: "flag" });
+    t.is(errors[0].id, "one");
+    hooks.enable("save", "one");
+    hooks.disableHandler("save", handler, broken);
+    await t.throwsAsync(hooks.emitAsync("save"), { message: "flag" });
+    t.is(errors.length, 2);
+    t.deepEqual(calls, []);
+});
+
+test("batched events deliver arrays of payloads", async (t) => {
+    const hooks = new InjectHooks<{ hover: InjectHooksBatch<number> }>();
+    const calls: number[][] = [];
+    hooks.policy("hover", { type: "batch", wait: 1000 });
+    hooks.inject("hover", "double", (d, next) =>
+        next(d.map((item) => item * 2) as InjectHooksBatch<number>)
+    );
+    hooks.on("hover", (d) => calls.push([...d]));
+    const first = hooks.emitAsync("hover", 1);
+    const second = hooks.emitAsync("hover", 2);
+    hooks.flush("hover");
+    t.deepEqual((await first).data, [2, 4]);
+    t.deepEqual((await second).data, [2, 4]);
+    t.deepEqual(calls, [[2, 4]]);
+});
+
+test("debounced emits are sent once and can be dropped", async (t) => {
+    const hooks = new InjectHooks<{ change: string }>();
+    const calls: string[] = [];
+    hooks.policy("change", { type: "debounce", wait: 20 });
+    hooks.on("change", (d) => calls.push(d));
+    hooks.emit("change", "a").emit("change", "ab");
+    const result = await hooks.emitAsync("change", "abc");
+    t.is(result.data, "abc");
+    t.deepEqual(calls, ["abc"]);
+    const dropped = hooks.emitAsync("change", "abcd");
+    hooks.drop("change");
+    await t.throwsAsync(dropped, {
+        message: "InjectHooks - change emit was dropped"
+    });
+    hooks.policy("change");
+    await hooks.emitAsync("change", "x");
+    t.deepEqual(calls, ["abc", "x"]);
+});
+
+test("emit policies report validation errors to the waiting callers", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.policy("save", { type: "throttle", wait: 1000, leading: false });
+    hooks.inject("save", "one", () => {}, { depends: "missing" });
+    const pending = hooks.emitAsync("save", 1);
+    hooks.flush();
+    await t.throwsAsync(pending, {
+        message: "InjectHooks - one requires missing dependency missing"
+    });
+    hooks.dispose();
+});
+
+test("events with a policy check each payload as it is emitted", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: number[][] = [];
+    hooks.policy("hover", { type: "batch", wait: 1000 });
+    hooks.schema("hover", "number", { afterInterceptors: true });
+    hooks.on("hover", (d) => calls.push(d));
+    t.throws(() => hooks.emit("hover", "one"), {
+        instanceOf: InjectHooksValidationError
+    });
+    const first = hooks.emitAsync("hover", 1);
+    const second = hooks.emitAsync("hover", 2);
+    hooks.flush();
+    t.deepEqual((await first).data, [1, 2]);
+    await second;
+    t.deepEqual(calls, [[1, 2]]);
+    hooks.policy("change", { type: "debounce", wait: 1000 });
+    hooks.schema("change", "string");
+    t.throws(() => hooks.emit("change", 1), {
+        message: "InjectHooks - invalid payload for change: expected string, got number"
+    });
+    hooks.dispose();
+});
+
+test("strict mode checks conditions when interceptors are added", (t) => {
+    const hooks = new InjectHooks({ strict: true });
+    const error = t.throws(
+        () =>
+            hooks.inject("load", "one", () => {}, {
+                befor: "two"
+            } as object),
+        { instanceOf: InjectHooksLintError }
+    );
+    t.is(
+        error?.message,
+        "InjectHooks - one has unknown condition befor, did you mean before?"
+    );
+    t.is(error?.diagnostics[0].suggestion, "before");
+    t.throws(() => hooks.inject("load", "one", () => {}, { after: "one" }), {
+        message: "InjectHooks - one lists itself in after"
+    });
+    t.deepEqual(hooks.describe("load"), []);
+
+    // Rejected registrations leave nothing behind
+    t.throws(() => hooks.inject("load:*", "two", () => {}, { after: "two" }));
+    t.throws(() => hooks.remove("load", "one"), {
+        message: "InjectHooks - load interceptor one not found"
+    });
+    t.deepEqual(hooks.lint(), []);
+});
+
+test("strict mode reports unknown IDs when validating", (t) => {
+    const hooks = new InjectHooks({ strict: true });
+    hooks.inject("load", "core:load-page", () => {});
+    hooks.inject("load", "alter", () => {}, { after: "core:load-pgae" });
+    hooks.inject("load", "audit", () => {}, { before: "nothing-like-it" });
+    const error = t.throws(() => hooks.validate(), {
+        instanceOf: InjectHooksLintError
+    });
+    t.is(
+        error?.message,
+        "InjectHooks - alter is ordered after unknown ID core:load-pgae on load, did you mean core:load-page? (and 1 more)"
+    );
+    t.deepEqual(
+        error?.diagnostics.map((item) => item.suggestion),
+        ["core:load-page", undefined]
+    );
+    t.notThrows(() =>
+        new InjectHooks()
+            .inject("load", "a", () => {}, { after: "b" })
+            .validate()
+    );
+});
+
+test("lint returns diagnostics instead of throwing", async (t) => {
+    const hooks = new InjectHooks({ strict: true });
+    const scope = hooks.createScope("widget", { bubble: true });
+    hooks.inject("save", "one", () => {}, { depends: "two" });
+    hooks.on("opened", () => {});
+    hooks.on("closed", () => {});
+    await scope.emitAsync("closed");
+    await hooks.emitAsync("unheard");
+    t.deepEqual(
+        hooks.lint().map((item) => [item.severity, item.code, item.event]),
+        [
+            ["error", "invalid", "save"],
+            ["warning", "no-handlers", "unheard"],
+            ["warning", "never-emitted", "opened"]
+        ]
+    );
+    t.is(
+        hooks.lint("save")[0].message,
+        "one requires missing dependency two"
+    );
+    t.deepEqual(hooks.lint("closed"), []);
+});
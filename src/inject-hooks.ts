@@ -1,367 +1,2422 @@
+import { buildGraph, InjectHooksGraphFormat, renderGraph } from "./graph";
+import {
+    getScheduler,
+    InjectHooksScheduler,
+    InjectHooksSchedulerName
+} from "./scheduler";
+import {
+    InjectHooksDiagnostic,
+    InjectHooksLintError,
+    lintConditions,
+    lintOrder
+} from "./lint";
+import {
+    EmitLimiter,
+    InjectHooksEmitted,
+    InjectHooksPolicy,
+    PendingEmit
+} from "./policy";
+import {
+    InjectHooksPattern,
+    isPattern,
+    PatternIndex,
+    patternMatches
+} from "./pattern";
+import {
+    compileSchema,
+    InjectHooksSchema,
+    InjectHooksSchemaIssue,
+    InjectHooksValidationError,
+    SchemaCheck
+} from "./schema";
+import { InjectHooksSubscription } from "./subscription";
+
+export * from "./bridge";
+export * from "./recording";
+export * from "./tracing";
+export { InjectHooksManualScheduler } from "./scheduler";
+export type {
+    InjectHooksScheduler,
+    InjectHooksSchedulerName
+} from "./scheduler";
+export type { InjectHooksPattern } from "./pattern";
+export { InjectHooksLintError } from "./lint";
+export type { InjectHooksDiagnostic } from "./lint";
+export type {
+    InjectHooksBatch,
+    InjectHooksEmitted,
+    InjectHooksPolicy
+} from "./policy";
+export { InjectHooksValidationError } from "./schema";
+export type {
+    InjectHooksSchema,
+    InjectHooksSchemaIssue,
+    InjectHooksSchemaValidator
+} from "./schema";
+export type { InjectHooksSubscription } from "./subscription";
+export type {
+    InjectHooksGraph,
+    InjectHooksGraphEdge,
+    InjectHooksGraphFormat,
+    InjectHooksGraphNode
+} from "./graph";
+
 export type InjectHooksKey = string;
 export type InjectHooksId = string;
 export type InjectHooksFilter = (name: InjectHooksKey) => boolean;
 export type InjectHooksCallback = (data: any) => void;
+export type InjectHooksPhase = "pre" | "mid" | "post" | (string & {});
 export interface InjectHooksConditions {
     after?: InjectHooksKey[] | InjectHooksKey;
     before?: InjectHooksKey[] | InjectHooksKey;
     conflicts?: InjectHooksKey[] | InjectHooksKey;
     depends?: InjectHooksKey[] | InjectHooksKey;
-    order?: "pre" | "mid" | "post";
+    order?: InjectHooksPhase;
+    priority?: number;
+    replaces?: InjectHooksId;
+    signal?: AbortSignal;
+    timeout?: number;
 }
 export interface InjectHooksConditionsAbsolute {
     after: InjectHooksKey[];
     before: InjectHooksKey[];
     conflicts: InjectHooksKey[];
     depends: InjectHooksKey[];
-    order: "pre" | "mid" | "post";
+    order: InjectHooksPhase;
+    priority: number;
+    replaces?: InjectHooksId;
+    timeout?: number;
+}
+export interface InjectHooksDescription {
+    id: InjectHooksId;
+    phase: InjectHooksPhase;
+    conditions: InjectHooksConditionsAbsolute;
+    matchedBy: "name" | "pattern" | "filter";
 }
 export type InjectHooksHandler<KEY, VALUE> = (data: VALUE, name: KEY) => void;
+export type InjectHooksPredicate<KEY, VALUE> = (
+    data: VALUE,
+    name: KEY
+) => boolean;
+export interface InjectHooksNext extends InjectHooksCallback {
+    cancel: (reason?: unknown) => void;
+}
+export type InjectHooksKind =
+    | "emit"
+    | "bail"
+    | "waterfall"
+    | "parallel"
+    | "collect";
+export interface InjectHooksResult<VALUE, RESULT = unknown> {
+    status: "delivered" | "cancelled";
+    data: VALUE;
+    cancelledBy?: InjectHooksId;
+    reason?: unknown;
+    result?: RESULT;
+}
 interface InjectHooksHandlerInfo {
     name: InjectHooksKey | InjectHooksFilter;
     handler: InjectHooksHandler<string, any>;
+    enabled?: InjectHooksPredicate<string, any>;
+    detach?: () => void;
+    original?: InjectHooksHandler<string, any>;
+}
+export interface InjectHooksListenerOptions {
+    signal?: AbortSignal;
+}
+export interface InjectHooksSubscribeOptions
+    extends InjectHooksListenerOptions {
+    once?: boolean;
+}
+export interface InjectHooksWaitForOptions<VALUE>
+    extends InjectHooksListenerOptions {
+    predicate?: (data: VALUE) => boolean;
+    timeout?: number;
+}
+export interface InjectHooksEventsOptions extends InjectHooksListenerOptions {
+    buffer?: number;
+    overflowPolicy?: "drop-oldest" | "drop-newest" | "error";
 }
 export type InjectHooksInterceptor<KEY, VALUE> = (
     data: VALUE,
-    next: InjectHooksCallback,
+    next: InjectHooksNext,
     name: KEY
-) => void;
+) => void | PromiseLike<VALUE>;
+export interface InjectHooksErrorInfo {
+    error: unknown;
+    name: InjectHooksKey;
+    data: any;
+    id?: InjectHooksId;
+    handler?: InjectHooksHandler<string, any>;
+}
+export interface InjectHooksCancelInfo {
+    name: InjectHooksKey;
+    data: any;
+    id: InjectHooksId;
+    reason?: unknown;
+}
+export type InjectHooksTimeoutPolicy = "skip" | "cancel" | "error";
+export interface InjectHooksSpan {
+    traceId: string;
+    spanId: string;
+    parentId?: string;
+    depth: number;
+    kind: "emit" | "interceptor" | "handler";
+    name: InjectHooksKey;
+    id?: InjectHooksId;
+    start: number;
+    end?: number;
+    duration?: number;
+    status?: "ok" | "cancelled" | "error" | "skipped";
+    input: any;
+    output?: any;
+    error?: unknown;
+}
+export interface InjectHooksTraceSink {
+    record(span: InjectHooksSpan): void;
+}
+export interface InjectHooksInternalApi {
+    addTraceSink(sink: InjectHooksTraceSink): () => void;
+    getInFlight(): InjectHooksInFlight[];
+    getInterceptor(
+        name: InjectHooksKey,
+        id: InjectHooksId
+    ): { injector: InjectHooksInterceptor<string, any> } | undefined;
+    relay(
+        name: InjectHooksKey,
+        data: any,
+        skip: InjectHooksHandler<string, any>
+    ): void;
+    report(info: InjectHooksErrorInfo): void;
+}
+export interface InjectHooksRecord {
+    name: InjectHooksKey;
+    start: number;
+    duration: number;
+    status: "delivered" | "cancelled" | "error";
+    input: any;
+    output?: any;
+    cancelledBy?: InjectHooksId;
+    reason?: unknown;
+    error?: unknown;
+}
+export interface InjectHooksRecordSink {
+    record(record: InjectHooksRecord): void;
+    snapshot?(input: any): any;
+}
+export interface InjectHooksOptions {
+    defaultPhase?: InjectHooksPhase;
+    eventPhases?: Record<InjectHooksKey, InjectHooksPhase[]>;
+    onCancel?: (info: InjectHooksCancelInfo) => void;
+    onError?: (info: InjectHooksErrorInfo) => void;
+    phases?: InjectHooksPhase[];
+    recorder?: InjectHooksRecordSink;
+    scheduler?: InjectHooksScheduler | InjectHooksSchedulerName;
+    strict?: boolean;
+    timeout?: number;
+    timeoutPolicy?: InjectHooksTimeoutPolicy;
+    trace?: InjectHooksTraceSink;
+}
+export interface InjectHooksScopeOptions extends InjectHooksOptions {
+    bubble?: boolean;
+}
+export interface InjectHooksSchemaOptions {
+    afterInterceptors?: boolean;
+}
+interface InjectHooksSchemaInfo {
+    check: SchemaCheck;
+    afterInterceptors: boolean;
+}
+interface InjectHooksStickyInfo {
+    size: number;
+    payloads: any[];
+}
+export interface InjectHooksInFlight {
+    name: InjectHooksKey;
+    data: any;
+    cleanup: (() => void)[];
+}
+interface InjectHooksEmitState extends InjectHooksInFlight {
+    span?: InjectHooksSpan;
+}
+export type InjectHooksPluginInterceptor<T> =
+    | {
+          [KEY in keyof T & InjectHooksKey]: {
+              name: KEY;
+              id?: InjectHooksId;
+              interceptor: InjectHooksInterceptor<KEY, T[KEY]>;
+              conditions?: InjectHooksConditions;
+          };
+      }[keyof T & InjectHooksKey]
+    | {
+          name: InjectHooksPattern | InjectHooksFilter;
+          id?: InjectHooksId;
+          interceptor: InjectHooksInterceptor<InjectHooksKey, any>;
+          conditions?: InjectHooksConditions;
+      };
+export type InjectHooksPluginHandler<T> =
+    | {
+          [KEY in keyof T & InjectHooksKey]: {
+              name: KEY;
+              handler: InjectHooksHandler<KEY, T[KEY]>;
+          };
+      }[keyof T & InjectHooksKey]
+    | {
+          name: InjectHooksPattern | InjectHooksFilter;
+          handler: InjectHooksHandler<InjectHooksKey, any>;
+      };
+export interface InjectHooksPlugin<T = Record<InjectHooksKey, any>> {
+    name: string;
+    version?: string;
+    depends?: string[] | string;
+    conflicts?: string[] | string;
+    interceptors?: InjectHooksPluginInterceptor<T>[];
+    handlers?: InjectHooksPluginHandler<T>[];
+}
+interface InjectHooksPluginInfo<T> {
+    plugin: InjectHooksPlugin<T>;
+    teardown: (() => void)[];
+}
 interface InjectHooksInterceptorInfo {
     id: InjectHooksId;
+    sequence: number;
     injector: InjectHooksInterceptor<string, any>;
     name: InjectHooksKey | InjectHooksFilter;
     conditions: InjectHooksConditionsAbsolute;
+    diagnostics: InjectHooksDiagnostic[];
+    enabled?: InjectHooksPredicate<string, any>;
+    detach?: () => void;
 }
 
 const InjectHooksFilter = Symbol("InjectHooksFilter");
+const hookKinds = ["emit", "bail", "waterfall", "parallel", "collect"];
+// Gives inject-hooks/testing access to an instance. The helpers are bundled
+// separately, so the key is shared through the global symbol registry, and
+// the names of public members survive minification unlike private ones.
+export const InjectHooksInternals = Symbol.for("inject-hooks.internals");
+// Shared by every instance so registration order is comparable across scopes.
+let lastSequence = 0;
+let lastSpanId = 0;
+
+export class InjectHooksTimeoutError extends Error {
+    constructor(
+        public event: InjectHooksKey,
+        public id: InjectHooksId,
+        public timeout: number
+    ) {
+        super(`InjectHooks - ${id} timed out after ${timeout}ms on ${event}`);
+        this.name = "InjectHooksTimeoutError";
+    }
+}
+
+function toArray<A>(a: A | A[] | undefined): A[] {
+    if (Array.isArray(a)) {
+        return a;
+    }
+
+    if (a === undefined) {
+        return [];
+    }
+
+    return [a];
+}
+
+// Minimal binary heap of numbers, used to pick the next interceptor to order.
+function heapPush(heap: number[], value: number) {
+    let i = heap.push(value) - 1;
+
+    while (i > 0) {
+        const parent = (i - 1) >> 1;
+
+        if (heap[parent] <= value) {
+            break;
+        }
+
+        heap[i] = heap[parent];
+        i = parent;
+    }
+
+    heap[i] = value;
+}
+
+function heapPop(heap: number[]): number {
+    const top = heap[0];
+    const last = heap.pop()!;
+
+    if (heap.length) {
+        let i = 0;
+
+        while (true) {
+            const left = i * 2 + 1;
+            const right = left + 1;
+            let smallest = last;
+            let target = i;
+
+            if (left < heap.length && heap[left] < smallest) {
+                smallest = heap[left];
+                target = left;
+            }
+
+            if (right < heap.length && heap[right] < smallest) {
+                target = right;
+            }
+
+            if (target === i) {
+                break;
+            }
+
+            heap[i] = heap[target];
+            i = target;
+        }
+
+        heap[i] = last;
+    }
+
+    return top;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return (
+        !!value && typeof (value as PromiseLike<unknown>).then === "function"
+    );
+}
+
+// Runs the handlers of an event that was declared with a kind other than
+// "emit". Series kinds stop at the first handler that throws or rejects.
+async function runKind(
+    kind: InjectHooksKind,
+    handlers: InjectHooksHandler<string, any>[],
+    data: any,
+    call: (handler: InjectHooksHandler<string, any>, input: any) => unknown
+): Promise<unknown> {
+    if (kind === "parallel") {
+        const settled = await Promise.allSettled(
+            handlers.map(async (handler) => call(handler, data))
+        );
+        const rejected = settled.find((item) => item.status === "rejected");
+
+        if (rejected) {
+            throw (rejected as PromiseRejectedResult).reason;
+        }
+
+        return settled.map(
+            (item) => (item as PromiseFulfilledResult<unknown>).value
+        );
+    }
+
+    const results: unknown[] = [];
+    let value = data;
+
+    for (const handler of handlers) {
+        const returned = await call(handler, value);
+
+        if (kind === "bail" && returned !== undefined) {
+            return returned;
+        }
+
+        if (kind === "waterfall" && returned !== undefined) {
+            value = returned;
+        }
+
+        results.push(returned);
+    }
+
+    if (kind === "collect") {
+        return results;
+    }
+
+    return kind === "waterfall" ? value : undefined;
+}
 
 export class InjectHooks<T = Record<InjectHooksKey, any>> {
+    scopeName?: string;
+    private _handlerPatterns = new PatternIndex();
     private _handlers = new Map<
         InjectHooksKey | Symbol,
         InjectHooksHandlerInfo[]
     >();
+    private _interceptorPatterns = new PatternIndex();
     private _interceptors = new Map<
         InjectHooksKey | Symbol,
         Map<InjectHooksKey, InjectHooksInterceptorInfo>
     >();
     private _interceptorsOrdered = new Map<
         InjectHooksKey | Symbol,
-        InjectHooksInterceptor<string, any>[]
+        InjectHooksInterceptorInfo[]
     >();
+    // Emits stopped by an interceptor that never calls next() never finish,
+    // so _inFlight holds them weakly and cleans up once they are collected.
+    private _abandoned = new FinalizationRegistry<{
+        ref: WeakRef<InjectHooksEmitState>;
+        cleanup: (() => void)[];
+    }>(({ ref, cleanup }) => {
+        this._inFlight.delete(ref);
 
-    emit<KEY extends keyof T & InjectHooksKey>(
-        name: KEY,
-        data?: T[KEY],
-        done?: (data: T[KEY]) => void
-    ): this {
-        // Validate interceptors or throw
-        this._getOrderedInterceptors(name);
+        for (const fn of cleanup.splice(0)) {
+            fn();
+        }
+    });
+    private _activeSpan?: InjectHooksSpan;
+    private _bubble = false;
+    private _emitted = new Set<InjectHooksKey>();
+    private _inFlight = new Set<WeakRef<InjectHooksEmitState>>();
+    private _kinds = new Map<InjectHooksKey, InjectHooksKind>();
+    private _limiters = new Map<InjectHooksKey, EmitLimiter>();
+    private _options: InjectHooksOptions;
+    private _parent?: InjectHooks<T>;
+    private _plugins = new Map<string, InjectHooksPluginInfo<T>>();
+    private _schedule: InjectHooksScheduler;
+    private _schemas = new Map<InjectHooksKey, InjectHooksSchemaInfo>();
+    private _scopes = new Set<InjectHooks<T>>();
+    private _sinks = new Set<InjectHooksTraceSink>();
+    private _sticky = new Map<InjectHooksKey, InjectHooksStickyInfo>();
 
-        setTimeout(() => {
-            this._transform(name, data as T[KEY], (modifiedData: any) => {
-                const list = [...(this._handlers.get(name) ?? [])];
+    constructor(options: InjectHooksOptions = {}) {
+        this._options = options;
+        this._schedule = getScheduler(options.scheduler);
+    }
 
-                for (const handler of this._handlers.get(InjectHooksFilter) ??
-                    []) {
-                    if (
-                        typeof handler.name === "function" &&
-                        handler.name(name)
-                    ) {
-                        list.push(handler);
-                    }
-                }
+    clearSticky<KEY extends keyof T & InjectHooksKey>(name?: KEY): this {
+        for (const [key, info] of this._sticky) {
+            if (name === undefined || name === key) {
+                info.payloads = [];
+            }
+        }
 
-                const handlerList = list.map((item) => item.handler);
+        return this;
+    }
 
-                if (done) {
-                    handlerList.unshift(done);
-                }
+    createScope(
+        name: string,
+        options: InjectHooksScopeOptions = {}
+    ): InjectHooks<T> {
+        const { bubble, ...rest } = options;
+        const scope = new InjectHooks<T>({ ...this._options, ...rest });
+        scope.scopeName = name;
+        scope._parent = this;
+        scope._bubble = !!bubble;
+        this._scopes.add(scope);
 
-                handlerList.forEach((handler) => {
-                    handler(modifiedData, name);
-                });
-            });
-        });
+        return scope;
+    }
 
-        return this;
+    describe<KEY extends keyof T & InjectHooksKey>(
+        name: KEY
+    ): InjectHooksDescription[] {
+        return this._getOrderedInterceptors(name).map((info) =>
+            this._describe(info)
+        );
     }
 
-    inject<KEY extends keyof T & InjectHooksKey>(
-        name: KEY | InjectHooksFilter,
+    disable<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
         id: InjectHooksId,
-        injector: InjectHooksInterceptor<KEY, T[KEY]>,
-        conditions: InjectHooksConditions = {}
+        when?: InjectHooksPredicate<KEY, T[KEY]>
     ): this {
-        const toArray = (a: InjectHooksKey | InjectHooksKey[] | undefined) => {
-            if (Array.isArray(a)) {
-                return a;
-            }
+        this._findInterceptor(name, id).enabled = when
+            ? (data, key) => !when(data, key as KEY)
+            : () => false;
 
-            if (a === undefined) {
-                return [];
-            }
+        return this;
+    }
 
-            return [a];
-        };
+    disableHandler<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        handler: InjectHooksHandler<KEY, T[KEY]>,
+        when?: InjectHooksPredicate<KEY, T[KEY]>
+    ): this {
+        this._findHandler(name, handler).enabled = when
+            ? (data, key) => !when(data, key as KEY)
+            : () => false;
 
-        let mapKey: InjectHooksKey | Symbol;
+        return this;
+    }
 
-        if (typeof name === "function") {
-            this._interceptorsOrdered.clear();
-            mapKey = InjectHooksFilter;
-        } else {
-            this._interceptorsOrdered.delete(name);
-            mapKey = name;
+    dispose(): void {
+        for (const scope of this._scopes) {
+            scope.dispose();
         }
 
-        const map =
-            this._interceptors.get(mapKey) ||
-            this._interceptors.set(mapKey, new Map()).get(mapKey)!;
-
-        if (map.has(id)) {
-            throw new Error(`InjectHooks - ID already exists: ${id}`);
+        for (const list of this._handlers.values()) {
+            for (const info of list) {
+                info.detach?.();
+            }
         }
 
-        map.set(id, {
-            id,
-            injector: injector as InjectHooksInterceptor<string, any>,
-            name,
-            conditions: {
-                after: toArray(conditions.after),
-                before: toArray(conditions.before),
-                conflicts: toArray(conditions.conflicts),
-                depends: toArray(conditions.depends),
-                order: conditions.order || "mid"
+        for (const map of this._interceptors.values()) {
+            for (const info of map.values()) {
+                info.detach?.();
             }
-        });
-
-        return this;
-    }
-
-    off<KEY extends keyof T & string>(
-        name: KEY | InjectHooksFilter,
-        handler: InjectHooksHandler<KEY, T[KEY]>
-    ): this {
-        const key = typeof name === "function" ? InjectHooksFilter : name;
-        const a = this._handlers.get(key) || [];
+        }
 
-        for (let i = 0; i < a.length; i += 1) {
-            if (a[i].handler === handler) {
-                a.splice(i, 1);
+        this._handlers.clear();
+        this._handlerPatterns = new PatternIndex();
+        this._interceptors.clear();
+        this._interceptorPatterns = new PatternIndex();
+        this._interceptorsOrdered.clear();
+        this._emitted.clear();
+        this._kinds.clear();
+        this.drop();
+        this._limiters.clear();
+        this._plugins.clear();
+        this._schemas.clear();
+        this._sticky.clear();
 
-                return this;
-            }
+        if (this._parent) {
+            this._parent._scopes.delete(this);
+            this._parent = undefined;
         }
+    }
 
-        if (a.length === 0) {
-            this._handlers.delete(key);
+    drop<KEY extends keyof T & InjectHooksKey>(name?: KEY): this {
+        for (const [key, limiter] of this._limiters) {
+            if (name === undefined || name === key) {
+                limiter.drop();
+            }
         }
 
-        throw new Error(`InjectHooks - ${name} handler not found`);
+        return this;
     }
 
-    on<KEY extends keyof T & string>(
-        name: KEY | InjectHooksFilter,
-        handler: InjectHooksHandler<KEY, T[KEY]>
+    emit<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        data?: InjectHooksEmitted<T[KEY]>,
+        done?: (data: T[KEY]) => void,
+        failed?: (error: unknown) => void
     ): this {
-        const key = typeof name === "function" ? InjectHooksFilter : name;
-        const a =
-            this._handlers.get(key) || this._handlers.set(key, []).get(key)!;
-        a.push({
-            name,
-            handler: handler as InjectHooksHandler<string, any>
-        });
+        this._emit(name, data as T[KEY], done, undefined, failed);
 
         return this;
     }
 
-    once<KEY extends keyof T & string>(
-        name: KEY | InjectHooksFilter,
-        handler: InjectHooksHandler<KEY, T[KEY]>
+    emitAsync<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        data?: InjectHooksEmitted<T[KEY]>
+    ): Promise<InjectHooksResult<T[KEY]>> {
+        return new Promise((resolve, reject) => {
+            this._emit(name, data as T[KEY], undefined, resolve, reject);
+        });
+    }
+
+    enable<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        id: InjectHooksId,
+        when?: InjectHooksPredicate<KEY, T[KEY]>
     ): this {
-        const onceHandler = () => {
-            this.off(name, onceHandler);
-            this.off(name, handler);
-        };
-        this.on(name, onceHandler);
+        this._findInterceptor(name, id).enabled =
+            when as InjectHooksPredicate<string, any>;
 
-        return this.on(name, handler);
+        return this;
     }
 
-    remove<KEY extends keyof T & string>(
-        name: KEY | InjectHooksFilter,
-        id: InjectHooksId
+    enableHandler<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        handler: InjectHooksHandler<KEY, T[KEY]>,
+        when?: InjectHooksPredicate<KEY, T[KEY]>
     ): this {
-        const key = typeof name === "function" ? InjectHooksFilter : name;
-        this._interceptorsOrdered.delete(key);
-        const map = this._interceptors.get(key);
+        this._findHandler(name, handler).enabled =
+            when as InjectHooksPredicate<string, any>;
 
-        if (map) {
-            map.delete(id);
+        return this;
+    }
+
+    events<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        options: InjectHooksEventsOptions = {}
+    ): AsyncIterableIterator<T[KEY]> {
+        const { buffer = 100, overflowPolicy = "drop-oldest", signal } = options;
+        const subscription = new InjectHooksSubscription(signal);
+        const queue: T[KEY][] = [];
+        const waiting: {
+            resolve: (result: IteratorResult<T[KEY]>) => void;
+            reject: (error: unknown) => void;
+        }[] = [];
+        let failed = false;
+        let failure: unknown;
+        const fail = (error: unknown) => {
+            failed = true;
+            failure = error;
+            queue.length = 0;
+            subscription.unsubscribe();
+        };
+        const end = (): Promise<IteratorResult<T[KEY]>> => {
+            if (failed) {
+                // Only the first read after a failure throws
+                failed = false;
 
-            if (map.size === 0) {
-                this._interceptors.delete(key);
+                return Promise.reject(failure);
             }
 
-            return this;
-        }
+            return Promise.resolve({ value: undefined, done: true });
+        };
 
-        throw new Error(`InjectHooks - ${name} interceptor ${id} not found`);
-    }
+        if (signal?.aborted) {
+            fail(signal.reason);
+        }
 
-    validate<KEY extends keyof T & string>(name?: KEY): this {
-        if (name) {
-            this._getOrderedInterceptors(name);
-        } else {
-            for (const name of this._interceptors.keys()) {
-                if (name !== InjectHooksFilter) {
-                    this._getOrderedInterceptors(name as string);
-                }
+        subscription.signal.addEventListener("abort", () => {
+            if (signal?.aborted && !failed) {
+                fail(signal.reason);
             }
-        }
 
-        return this;
-    }
+            for (const { resolve, reject } of waiting.splice(0)) {
+                end().then(resolve, reject);
+            }
+        });
+        this.on(
+            name,
+            (data: T[KEY]) => {
+                const waiter = waiting.shift();
 
-    private _getInterceptors(
-        name: InjectHooksKey
-    ): Map<string, InjectHooksInterceptorInfo> {
-        const result = new Map<string, InjectHooksInterceptorInfo>(
-            this._interceptors.get(name) || []
+                if (waiter) {
+                    waiter.resolve({ value: data, done: false });
+                } else if (queue.length < buffer) {
+                    queue.push(data);
+                } else if (overflowPolicy === "drop-oldest") {
+                    queue.shift();
+                    queue.push(data);
+                } else if (overflowPolicy === "error") {
+                    fail(
+                        new Error(
+                            `InjectHooks - more than ${buffer} events waiting to be read`
+                        )
+                    );
+                }
+            },
+            { signal: subscription.signal }
         );
+        const iterator: AsyncIterableIterator<T[KEY]> = {
+            next: () => {
+                if (queue.length) {
+                    return Promise.resolve({
+                        value: queue.shift()!,
+                        done: false
+                    });
+                }
 
-        for (const [id, info] of this._interceptors.get(InjectHooksFilter) ||
-            []) {
-            if (typeof info.name === "function" && info.name(name)) {
-                if (result.has(id)) {
-                    throw new Error(`InjectHooks - ID already exists: ${id}`);
+                if (subscription.closed) {
+                    return end();
                 }
 
-                result.set(id, info);
+                return new Promise((resolve, reject) => {
+                    waiting.push({ resolve, reject });
+                });
+            },
+            return: () => {
+                queue.length = 0;
+                subscription.unsubscribe();
+
+                return Promise.resolve({ value: undefined, done: true });
+            },
+            [Symbol.asyncIterator]: () => iterator
+        };
+
+        return iterator;
+    }
+
+    flush<KEY extends keyof T & InjectHooksKey>(name?: KEY): this {
+        for (const [key, limiter] of this._limiters) {
+            if (name === undefined || name === key) {
+                limiter.flush();
             }
         }
 
-        return result;
+        return this;
     }
 
-    private _getOrderedInterceptors(
-        name: InjectHooksKey
-    ): InjectHooksInterceptor<string, any>[] {
-        const cached = this._interceptorsOrdered.get(name);
+    graph<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        format: InjectHooksGraphFormat = "json"
+    ): string {
+        // Drawn from the registrations rather than describe(), so cycles,
+        // conflicts and missing dependencies can still be looked at.
+        const map = this._getInterceptors(name);
+        const phases = this._getPhases(name);
+        const positions = new Map<InjectHooksId, number>();
 
-        if (cached) {
-            return cached;
+        try {
+            this._replaceInterceptors(map);
+            this._getOrderedInterceptors(name).forEach((info, i) =>
+                positions.set(info.id, i)
+            );
+        } catch {
+            // Shown in registration order within each phase instead
         }
 
-        const map = this._getInterceptors(name);
-        this._verifyInterceptors(map);
-        const { pre, mid, post } = this._separateInterceptors(map);
-        const ordered = [
-            ...this._orderInterceptors(pre),
-            ...this._orderInterceptors(mid),
-            ...this._orderInterceptors(post)
-        ];
-        this._interceptorsOrdered.set(name, ordered);
-
-        return ordered;
-    }
+        const infos = [...new Set(map.values())].sort(
+            (a, b) =>
+                phases.indexOf(a.conditions.order) -
+                    phases.indexOf(b.conditions.order) ||
+                (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0) ||
+                a.sequence - b.sequence
+        );
 
-    private _orderInterceptors(
-        map: Map<InjectHooksKey, InjectHooksInterceptorInfo>
-    ): InjectHooksInterceptor<string, any>[] {
-        const unresolved = new Set(map.keys());
-        const result = [];
-        let unresolvedLastSize = unresolved.size;
+        // Conditions naming a replaced interceptor point at its replacement
+        const descriptions = infos.map((info) => {
+            const { conditions, ...rest } = this._describe(info);
+            const resolve = (ids: InjectHooksId[]) =>
+                ids.map((id) => map.get(id)?.id ?? id);
 
-        do {
-            let wait = new Set<InjectHooksKey>();
+            return {
+                ...rest,
+                conditions: {
+                    ...conditions,
+                    after: resolve(conditions.after),
+                    before: resolve(conditions.before),
+                    conflicts: resolve(conditions.conflicts),
+                    depends: resolve(conditions.depends)
+                }
+            };
+        });
 
-            for (const id of unresolved) {
-                const info = map.get(id)!;
+        return renderGraph(buildGraph(name, descriptions), format);
+    }
 
-                for (const after of info.conditions.after) {
-                    if (unresolved.has(after)) {
-                        wait.add(id);
-                        break;
-                    }
-                }
+    inject<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        id: InjectHooksId,
+        injector: InjectHooksInterceptor<KEY, T[KEY]>,
+        conditions: InjectHooksConditions = {}
+    ): this {
+        const { signal } = conditions;
 
-                for (const before of info.conditions.before) {
-                    if (unresolved.has(before)) {
-                        wait.add(before);
-                    }
-                }
-            }
+        if (signal?.aborted) {
+            return this;
+        }
 
-            for (const id of unresolved) {
-                if (!wait.has(id)) {
-                    const info = map.get(id)!;
-                    result.push(info.injector);
-                    unresolved.delete(id);
-                }
-            }
-        } while (unresolved.size !== unresolvedLastSize && unresolved.size);
+        const diagnostics = lintConditions(id, conditions);
 
-        if (unresolved.size) {
-            throw new Error(
-                `InjectHooks - Circular dependencies: ${Array.from(unresolved).join(", ")}`
-            );
+        // Checked before anything is changed, so a rejected registration
+        // leaves nothing behind
+        if (this._options.strict && diagnostics.length) {
+            throw new InjectHooksLintError(diagnostics);
         }
 
-        return result;
-    }
+        const mapKey = typeof name === "function" ? InjectHooksFilter : name;
+        let map = this._interceptors.get(mapKey);
 
-    private _separateInterceptors(
-        map: Map<InjectHooksKey, InjectHooksInterceptorInfo>
-    ) {
-        const pre = new Map<InjectHooksKey, InjectHooksInterceptorInfo>();
-        const mid = new Map<InjectHooksKey, InjectHooksInterceptorInfo>();
-        const post = new Map<InjectHooksKey, InjectHooksInterceptorInfo>();
+        if (map?.has(id)) {
+            throw new Error(`InjectHooks - ID already exists: ${id}`);
+        }
 
-        for (const info of map.values()) {
-            const order = info.conditions.order;
+        this._clearOrdered(name);
+
+        if (!map) {
+            map = new Map();
+            this._interceptors.set(mapKey, map);
 
-            if (order === "pre") {
-                pre.set(info.id, info);
-            } else if (order === "post") {
-                post.set(info.id, info);
-            } else {
-                mid.set(info.id, info);
+            if (isPattern(name)) {
+                this._interceptorPatterns.add(name);
             }
         }
 
-        return { pre, mid, post };
-    }
-
+        lastSequence += 1;
+        const info: InjectHooksInterceptorInfo = {
+            id,
+            sequence: lastSequence,
+            injector: injector as InjectHooksInterceptor<string, any>,
+            name,
+            conditions: {
+                after: toArray(conditions.after),
+                before: toArray(conditions.before),
+                conflicts: toArray(conditions.conflicts),
+                depends: toArray(conditions.depends),
+                order:
+                    conditions.order || this._options.defaultPhase || "mid",
+                priority: conditions.priority ?? 0,
+                replaces: conditions.replaces,
+                timeout: conditions.timeout
+            },
+            diagnostics
+        };
+        map.set(id, info);
+
+        if (signal) {
+            const abort = () => this._removeInterceptor(info);
+            signal.addEventListener("abort", abort);
+            info.detach = () => signal.removeEventListener("abort", abort);
+        }
+
+        return this;
+    }
+
+    intercept<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        id: InjectHooksId,
+        injector: InjectHooksInterceptor<KEY, T[KEY]>,
+        conditions: InjectHooksConditions = {}
+    ): InjectHooksSubscription {
+        const subscription = new InjectHooksSubscription(conditions.signal);
+
+        try {
+            this.inject(name, id, injector, {
+                ...conditions,
+                signal: subscription.signal
+            });
+        } catch (error) {
+            subscription.unsubscribe();
+            throw error;
+        }
+
+        return subscription;
+    }
+
+    invoke<KEY extends keyof T & InjectHooksKey, RESULT = unknown>(
+        name: KEY,
+        data?: InjectHooksEmitted<T[KEY]>
+    ): Promise<InjectHooksResult<T[KEY], RESULT>> {
+        // Handlers are typed as returning nothing, so RESULT is only a cast
+        return this.emitAsync(name, data) as Promise<
+            InjectHooksResult<T[KEY], RESULT>
+        >;
+    }
+
+    kind<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        kind: InjectHooksKind
+    ): this {
+        if (!hookKinds.includes(kind)) {
+            throw new Error(`InjectHooks - unknown hook kind: ${kind}`);
+        }
+
+        this._kinds.set(name, kind);
+
+        return this;
+    }
+
+    lint<KEY extends keyof T & InjectHooksKey>(
+        name?: KEY
+    ): InjectHooksDiagnostic[] {
+        const names =
+            name === undefined
+                ? new Set([...this._interceptedNames(), ...this._emitted])
+                : [name];
+        const diagnostics = [...names].flatMap((event) =>
+            this._lintEvent(event)
+        );
+
+        // Only strict instances keep track of what was emitted
+        if (!this._options.strict) {
+            return diagnostics;
+        }
+
+        for (const event of names) {
+            if (this._emitted.has(event) && !this._hasHandlers(event)) {
+                diagnostics.push({
+                    severity: "warning",
+                    code: "no-handlers",
+                    message: `${event} is emitted but has no handlers`,
+                    event
+                });
+            }
+        }
+
+        for (const key of this._handlers.keys()) {
+            if (
+                typeof key === "string" &&
+                !isPattern(key) &&
+                (name === undefined || name === key) &&
+                !this._emitted.has(key)
+            ) {
+                diagnostics.push({
+                    severity: "warning",
+                    code: "never-emitted",
+                    message: `${key} has handlers but is never emitted`,
+                    event: key
+                });
+            }
+        }
+
+        return diagnostics;
+    }
+
+    off<KEY extends keyof T & string>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        handler: InjectHooksHandler<KEY, T[KEY]>
+    ): this {
+        this._removeHandler(this._findHandler(name, handler));
+
+        return this;
+    }
+
+    on<KEY extends keyof T & string>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        handler: InjectHooksHandler<KEY, T[KEY]>,
+        options: InjectHooksListenerOptions = {}
+    ): this {
+        const info = this._addHandler(name, handler, options.signal);
+
+        if (info) {
+            this._replay(info, false);
+        }
+
+        return this;
+    }
+
+    once<KEY extends keyof T & string>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        handler: InjectHooksHandler<KEY, T[KEY]>,
+        options: InjectHooksListenerOptions = {}
+    ): this {
+        const info = this._addHandler(
+            name,
+            (data, event) => {
+                this._removeHandler(info!);
+
+                return handler(data, event);
+            },
+            options.signal
+        );
+
+        // off() is called with the handler that was passed in
+        if (info) {
+            info.original = handler as InjectHooksHandler<string, any>;
+            this._replay(info, true);
+        }
+
+        return this;
+    }
+
+    policy<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        policy?: InjectHooksPolicy
+    ): this {
+        const limiter =
+            policy &&
+            new EmitLimiter(name, policy, (data, pending) =>
+                this._sendPending(name, data, pending)
+            );
+        this.flush(name);
+
+        if (limiter) {
+            this._limiters.set(name, limiter);
+        } else {
+            this._limiters.delete(name);
+        }
+
+        return this;
+    }
+
+    remove<KEY extends keyof T & string>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        id: InjectHooksId
+    ): this {
+        const key = typeof name === "function" ? InjectHooksFilter : name;
+        const map = this._interceptors.get(key);
+
+        if (map) {
+            const info = map.get(id);
+
+            if (info) {
+                this._removeInterceptor(info);
+            }
+
+            return this;
+        }
+
+        throw new Error(`InjectHooks - ${name} interceptor ${id} not found`);
+    }
+
+    schema<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        schema: InjectHooksSchema,
+        options: InjectHooksSchemaOptions = {}
+    ): this {
+        this._schemas.set(name, {
+            check: compileSchema(schema),
+            afterInterceptors: !!options.afterInterceptors
+        });
+
+        return this;
+    }
+
+    sticky<KEY extends keyof T & InjectHooksKey>(name: KEY, size = 1): this {
+        if (!(size >= 1)) {
+            throw new Error(`InjectHooks - ${name} sticky size must be at least 1`);
+        }
+
+        const info =
+            this._sticky.get(name) ||
+            this._sticky.set(name, { size, payloads: [] }).get(name)!;
+        info.size = size;
+        info.payloads = info.payloads.slice(-size);
+
+        return this;
+    }
+
+    subscribe<KEY extends keyof T & string>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        handler: InjectHooksHandler<KEY, T[KEY]>,
+        options: InjectHooksSubscribeOptions = {}
+    ): InjectHooksSubscription {
+        const subscription = new InjectHooksSubscription(options.signal);
+        const listener: InjectHooksHandler<KEY, T[KEY]> = options.once
+            ? (data, name) => {
+                  subscription.unsubscribe();
+                  handler(data, name);
+              }
+            : handler;
+        this.on(name, listener, { signal: subscription.signal });
+
+        return subscription;
+    }
+
+    unuse(pluginName: string): this {
+        const info = this._plugins.get(pluginName);
+
+        if (!info) {
+            throw new Error(`InjectHooks - plugin not found: ${pluginName}`);
+        }
+
+        for (const other of this._plugins.values()) {
+            if (toArray(other.plugin.depends).includes(pluginName)) {
+                throw new Error(
+                    `InjectHooks - plugin ${other.plugin.name} requires ${pluginName}`
+                );
+            }
+        }
+
+        for (const teardown of [...info.teardown].reverse()) {
+            try {
+                teardown();
+            } catch {
+                // Already removed by hand with off() or remove()
+            }
+        }
+
+        this._plugins.delete(pluginName);
+
+        return this;
+    }
+
+    use(plugin: InjectHooksPlugin<T>): this {
+        if (this._plugins.has(plugin.name)) {
+            throw new Error(`InjectHooks - plugin already in use: ${plugin.name}`);
+        }
+
+        for (const depend of toArray(plugin.depends)) {
+            if (!this._plugins.has(depend)) {
+                throw new Error(
+                    `InjectHooks - plugin ${plugin.name} requires missing plugin ${depend}`
+                );
+            }
+        }
+
+        for (const other of this._plugins.values()) {
+            if (
+                toArray(plugin.conflicts).includes(other.plugin.name) ||
+                toArray(other.plugin.conflicts).includes(plugin.name)
+            ) {
+                throw new Error(
+                    `InjectHooks - plugin ${plugin.name} conflicts with ${other.plugin.name}`
+                );
+            }
+        }
+
+        const teardown: (() => void)[] = [];
+        const touched = new Set<InjectHooksKey>();
+
+        try {
+            for (const item of plugin.interceptors ?? []) {
+                const id = item.id ?? plugin.name;
+                this.inject(
+                    item.name as keyof T & InjectHooksKey,
+                    id,
+                    item.interceptor as InjectHooksInterceptor<any, any>,
+                    item.conditions
+                );
+                teardown.push(() =>
+                    this.remove(item.name as keyof T & InjectHooksKey, id)
+                );
+
+                for (const name of this._interceptors.keys()) {
+                    if (
+                        typeof name === "string" &&
+                        !isPattern(name) &&
+                        this._nameMatches(item.name, name)
+                    ) {
+                        touched.add(name);
+                    }
+                }
+            }
+
+            for (const item of plugin.handlers ?? []) {
+                const handler = item.handler as InjectHooksHandler<any, any>;
+                const name = item.name as keyof T & InjectHooksKey;
+                this.on(name, handler);
+                teardown.push(() => this.off(name, handler));
+            }
+
+            for (const name of touched) {
+                this._getOrderedInterceptors(name);
+            }
+        } catch (error) {
+            for (const undo of teardown.reverse()) {
+                undo();
+            }
+
+            throw error;
+        }
+
+        this._plugins.set(plugin.name, { plugin, teardown });
+
+        return this;
+    }
+
+    validate<KEY extends keyof T & string>(name?: KEY): this {
+        const names = name ? [name] : this._interceptedNames();
+
+        for (const event of names) {
+            this._getOrderedInterceptors(event);
+        }
+
+        if (this._options.strict) {
+            const errors = names
+                .flatMap((event) => this._lintEvent(event))
+                .filter((diagnostic) => diagnostic.severity === "error");
+
+            if (errors.length) {
+                throw new InjectHooksLintError(errors);
+            }
+        }
+
+        return this;
+    }
+
+    waitFor<KEY extends keyof T & InjectHooksKey>(
+        name: KEY | InjectHooksPattern | InjectHooksFilter,
+        options: InjectHooksWaitForOptions<T[KEY]> = {}
+    ): Promise<T[KEY]> {
+        const { predicate, signal, timeout } = options;
+
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+
+                return;
+            }
+
+            const subscription = new InjectHooksSubscription(signal);
+            const timer =
+                timeout === undefined
+                    ? undefined
+                    : setTimeout(() => {
+                          reject(
+                              new Error(
+                                  `InjectHooks - timed out after ${timeout}ms waiting for ${typeof name === "function" ? "filter" : name}`
+                              )
+                          );
+                          subscription.unsubscribe();
+                      }, timeout);
+            subscription.signal.addEventListener("abort", () => {
+                // Does nothing when the Promise was already settled
+                clearTimeout(timer);
+                reject(signal?.reason);
+            });
+            this.on(
+                name,
+                (data: T[KEY]) => {
+                    try {
+                        if (predicate && !predicate(data)) {
+                            return;
+                        }
+
+                        resolve(data);
+                    } catch (error) {
+                        reject(error);
+                    }
+
+                    subscription.unsubscribe();
+                },
+                { signal: subscription.signal }
+            );
+        });
+    }
+
+    [InjectHooksInternals](): InjectHooksInternalApi {
+        return {
+            addTraceSink: (sink) => {
+                this._sinks.add(sink);
+
+                return () => this._sinks.delete(sink);
+            },
+            getInFlight: () =>
+                [...this._inFlight].flatMap((ref) => ref.deref() ?? []),
+            getInterceptor: (name, id) => this._getInterceptors(name).get(id),
+            relay: (name, data, skip) =>
+                this._emit(
+                    name as keyof T & InjectHooksKey,
+                    data,
+                    undefined,
+                    undefined,
+                    undefined,
+                    skip
+                ),
+            report: (info) => this._report(info, true)
+        };
+    }
+
+    private _addHandler(
+        name: InjectHooksKey | InjectHooksFilter,
+        handler: InjectHooksHandler<any, any>,
+        signal?: AbortSignal
+    ): InjectHooksHandlerInfo | undefined {
+        if (signal?.aborted) {
+            return undefined;
+        }
+
+        const key = typeof name === "function" ? InjectHooksFilter : name;
+        let a = this._handlers.get(key);
+
+        if (!a) {
+            a = [];
+            this._handlers.set(key, a);
+
+            if (isPattern(name)) {
+                this._handlerPatterns.add(name);
+            }
+        }
+
+        const info: InjectHooksHandlerInfo = { name, handler };
+        a.push(info);
+
+        if (signal) {
+            const abort = () => this._removeHandler(info);
+            signal.addEventListener("abort", abort);
+            info.detach = () => signal.removeEventListener("abort", abort);
+        }
+
+        return info;
+    }
+
+    private _clearOrdered(name: InjectHooksKey | InjectHooksFilter) {
+        if (typeof name === "function") {
+            this._interceptorsOrdered.clear();
+        } else if (isPattern(name)) {
+            for (const key of this._interceptorsOrdered.keys()) {
+                if (typeof key === "string" && patternMatches(name, key)) {
+                    this._interceptorsOrdered.delete(key);
+                }
+            }
+        } else {
+            this._interceptorsOrdered.delete(name);
+        }
+
+        for (const scope of this._scopes) {
+            scope._clearOrdered(name);
+        }
+    }
+
+    private _describe(
+        info: InjectHooksInterceptorInfo
+    ): InjectHooksDescription {
+        return {
+            id: info.id,
+            phase: info.conditions.order,
+            conditions: {
+                ...info.conditions,
+                after: [...info.conditions.after],
+                before: [...info.conditions.before],
+                conflicts: [...info.conditions.conflicts],
+                depends: [...info.conditions.depends]
+            },
+            matchedBy:
+                typeof info.name === "function"
+                    ? "filter"
+                    : isPattern(info.name)
+                      ? "pattern"
+                      : "name"
+        };
+    }
+
+    private _dispatch<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        data: T[KEY],
+        done?: (data: T[KEY]) => void,
+        callback?: (result: InjectHooksResult<T[KEY]>) => void,
+        errback?: (error: unknown) => void,
+        skip?: InjectHooksHandler<string, any>
+    ) {
+        // The payload was checked by _emit(). Interceptors may have changed
+        // while a policy held it back.
+        this._getOrderedInterceptors(name);
+        const state: InjectHooksEmitState = {
+            name,
+            data,
+            cleanup: [],
+            span: this._startSpan(this._activeSpan, "emit", name, data)
+        };
+        const ref = new WeakRef(state);
+        const finish = () => {
+            this._inFlight.delete(ref);
+            this._abandoned.unregister(ref);
+
+            for (const cleanup of state.cleanup.splice(0)) {
+                cleanup();
+            }
+        };
+        const report = (info: InjectHooksErrorInfo) =>
+            this._report(info, !errback);
+        const start = performance.now();
+        const { recorder } = this._options;
+        let input = data;
+
+        // Taken now, before interceptors can change the payload in place
+        if (recorder?.snapshot) {
+            this._safely(name, data, () => {
+                input = recorder.snapshot!(data);
+            });
+        }
+
+        const record = (
+            status: InjectHooksRecord["status"],
+            outcome: Partial<InjectHooksRecord>
+        ) => {
+            this._safely(name, data, () =>
+                recorder?.record({
+                    name,
+                    start,
+                    duration: performance.now() - start,
+                    status,
+                    input,
+                    ...outcome
+                })
+            );
+        };
+        const stop = (error: unknown) => {
+            this._endSpan(state.span, "error", undefined, error);
+            record("error", { error });
+            finish();
+
+            if (errback) {
+                errback(error);
+            }
+        };
+        this._inFlight.add(ref);
+        this._abandoned.register(state, { ref, cleanup: state.cleanup }, ref);
+
+        this._schedule(() => {
+            this._transform(
+                name,
+                data,
+                state.span,
+                (error, id, stopped) => {
+                    report({ error, name, data, id });
+
+                    if (stopped) {
+                        stop(error);
+                    }
+                },
+                (result) => {
+                    const invalid =
+                        result.status === "delivered" &&
+                        this._validate(name, result.data, true);
+
+                    if (invalid) {
+                        report({ error: invalid, name, data });
+                        stop(invalid);
+
+                        return;
+                    }
+
+                    const kind = this._getKind(name);
+                    const complete = (
+                        failed: boolean,
+                        failure?: unknown,
+                        value?: unknown
+                    ) => {
+                        this._endSpan(
+                            state.span,
+                            failed
+                                ? "error"
+                                : result.status === "cancelled"
+                                  ? "cancelled"
+                                  : "ok",
+                            result.data,
+                            failure
+                        );
+                        record(failed ? "error" : result.status, {
+                            output: result.data,
+                            cancelledBy: result.cancelledBy,
+                            reason: result.reason,
+                            error: failure
+                        });
+                        finish();
+
+                        if (failed && errback) {
+                            errback(failure);
+                        } else if (callback) {
+                            callback(
+                                kind === "emit" || result.status !== "delivered"
+                                    ? result
+                                    : { ...result, result: value }
+                            );
+                        }
+                    };
+
+                    if (result.status === "cancelled") {
+                        this._options.onCancel?.({
+                            name,
+                            data,
+                            id: result.cancelledBy!,
+                            reason: result.reason
+                        });
+                        complete(false);
+
+                        return;
+                    }
+
+                    let handlers: InjectHooksHandler<string, any>[];
+
+                    // The predicates given to disableHandler() may throw
+                    try {
+                        handlers = this._getHandlers(name, result.data, skip);
+                    } catch (error) {
+                        report({ error, name, data });
+                        complete(true, error);
+
+                        return;
+                    }
+
+                    const sticky = this._sticky.get(name);
+
+                    if (sticky) {
+                        sticky.payloads = [
+                            ...sticky.payloads,
+                            result.data
+                        ].slice(-sticky.size);
+                    }
+
+                    // Only kinds that use the return values wait for
+                    // handlers that return a Promise.
+                    const call = (
+                        handler: InjectHooksHandler<string, any>,
+                        input: any
+                    ): unknown => {
+                        const span = this._startSpan(
+                            state.span,
+                            "handler",
+                            name,
+                            input
+                        );
+                        const fail = (error: unknown) => {
+                            this._endSpan(span, "error", undefined, error);
+                            report({ error, name, data, handler });
+                        };
+
+                        try {
+                            const value: unknown = this._inSpan(span, () =>
+                                handler(input, name)
+                            );
+
+                            if (kind !== "emit" && isPromiseLike(value)) {
+                                return Promise.resolve(value).then(
+                                    (value) => {
+                                        this._endSpan(span, "ok");
+
+                                        return value;
+                                    },
+                                    (error) => {
+                                        fail(error);
+                                        throw error;
+                                    }
+                                );
+                            }
+
+                            this._endSpan(span, "ok");
+
+                            return value;
+                        } catch (error) {
+                            fail(error);
+                            throw error;
+                        }
+                    };
+
+                    if (kind === "emit") {
+                        let failed = false;
+                        let failure: unknown;
+
+                        for (const handler of done
+                            ? [done, ...handlers]
+                            : handlers) {
+                            try {
+                                call(handler, result.data);
+                            } catch (error) {
+                                if (!failed) {
+                                    failed = true;
+                                    failure = error;
+                                }
+                            }
+                        }
+
+                        complete(failed, failure);
+
+                        return;
+                    }
+
+                    try {
+                        if (done) {
+                            call(done, result.data);
+                        }
+                    } catch (error) {
+                        complete(true, error);
+
+                        return;
+                    }
+
+                    runKind(
+                        kind,
+                        handlers,
+                        result.data,
+                        call
+                    ).then(
+                        (value) => complete(false, undefined, value),
+                        (error) => complete(true, error)
+                    );
+                }
+            );
+        });
+    }
+
+    private _emit<KEY extends keyof T & InjectHooksKey>(
+        name: KEY,
+        data: T[KEY],
+        done?: (data: T[KEY]) => void,
+        callback?: (result: InjectHooksResult<T[KEY]>) => void,
+        errback?: (error: unknown) => void,
+        skip?: InjectHooksHandler<string, any>
+    ) {
+        const limiter = this._limiters.get(name);
+        let hooks: InjectHooks<T> | undefined = this;
+
+        // Validate interceptors and the payload or throw. Events with a
+        // policy are checked one emit at a time, before they are held back.
+        this._getOrderedInterceptors(name);
+        const invalid = this._validate(name, data, false);
+
+        if (invalid) {
+            throw invalid;
+        }
+
+        // Bubbling scopes emit to their parent's handlers as well
+        while (hooks && this._options.strict) {
+            hooks._emitted.add(name);
+            hooks = hooks._bubble ? hooks._parent : undefined;
+        }
+
+        // Relayed events were already limited where they were first emitted
+        if (limiter && !skip) {
+            limiter.add({ data, done, callback, errback });
+        } else {
+            this._dispatch(name, data, done, callback, errback, skip);
+        }
+    }
+
+    private _endSpan(
+        span: InjectHooksSpan | undefined,
+        status: NonNullable<InjectHooksSpan["status"]>,
+        output?: any,
+        error?: unknown
+    ) {
+        // Spans may be ended by several paths; only the first one counts.
+        if (span && span.end === undefined) {
+            span.end = performance.now();
+            span.duration = span.end - span.start;
+            span.status = status;
+            span.output = output;
+
+            if (error !== undefined) {
+                span.error = error;
+            }
+
+            for (const sink of this._getTraceSinks()) {
+                this._safely(span.name, span.input, () => sink.record(span));
+            }
+        }
+    }
+
+    private _findHandler(
+        name: InjectHooksKey | InjectHooksFilter,
+        handler: InjectHooksHandler<any, any>
+    ): InjectHooksHandlerInfo {
+        const key = typeof name === "function" ? InjectHooksFilter : name;
+        const info = this._handlers
+            .get(key)
+            ?.find(
+                (item) => item.handler === handler || item.original === handler
+            );
+
+        if (!info) {
+            throw new Error(`InjectHooks - ${name} handler not found`);
+        }
+
+        return info;
+    }
+
+    private _findInterceptor(
+        name: InjectHooksKey | InjectHooksFilter,
+        id: InjectHooksId
+    ): InjectHooksInterceptorInfo {
+        const key = typeof name === "function" ? InjectHooksFilter : name;
+        const info = this._interceptors.get(key)?.get(id);
+
+        if (!info) {
+            throw new Error(
+                `InjectHooks - ${name} interceptor ${id} not found`
+            );
+        }
+
+        return info;
+    }
+
+    private _getDisabled(
+        interceptors: InjectHooksInterceptorInfo[],
+        name: InjectHooksKey,
+        data: any,
+        errback: (error: unknown, id: InjectHooksId, stopped: boolean) => void
+    ): Set<InjectHooksInterceptorInfo> | undefined {
+        const disabled = new Set<InjectHooksInterceptorInfo>();
+
+        // The predicates given to disable() may throw, which stops the emit
+        for (const info of interceptors) {
+            try {
+                if (info.enabled && !info.enabled(data, name)) {
+                    disabled.add(info);
+                }
+            } catch (error) {
+                errback(error, info.id, true);
+
+                return undefined;
+            }
+        }
+
+        let size = 0;
+
+        // Interceptors that depend on a disabled one are skipped with it,
+        // repeating until nothing else depends on a skipped interceptor.
+        while (size !== disabled.size) {
+            size = disabled.size;
+            const ids = new Set(
+                [...disabled].flatMap((info) => [
+                    info.id,
+                    info.conditions.replaces
+                ])
+            );
+
+            for (const info of interceptors) {
+                if (info.conditions.depends.some((id) => ids.has(id))) {
+                    disabled.add(info);
+                }
+            }
+        }
+
+        return disabled;
+    }
+
+    private _getHandlers(
+        name: InjectHooksKey,
+        data: any,
+        skip?: InjectHooksHandler<string, any>
+    ): InjectHooksHandler<string, any>[] {
+        const list = [...(this._handlers.get(name) ?? [])];
+
+        for (const pattern of this._handlerPatterns.match(name)) {
+            list.push(...this._handlers.get(pattern)!);
+        }
+
+        for (const handler of this._handlers.get(InjectHooksFilter) ?? []) {
+            if (typeof handler.name === "function" && handler.name(name)) {
+                list.push(handler);
+            }
+        }
+
+        const handlerList = list
+            .filter((item) => !item.enabled || item.enabled(data, name))
+            .map((item) => item.handler)
+            .filter((handler) => handler !== skip);
+
+        if (this._bubble && this._parent) {
+            handlerList.push(...this._parent._getHandlers(name, data, skip));
+        }
+
+        return handlerList;
+    }
+
+    private _getInterceptors(
+        name: InjectHooksKey
+    ): Map<string, InjectHooksInterceptorInfo> {
+        const result = new Map<string, InjectHooksInterceptorInfo>(
+            this._interceptors.get(name) || []
+        );
+        const add = (id: InjectHooksId, info: InjectHooksInterceptorInfo) => {
+            if (result.has(id)) {
+                throw new Error(`InjectHooks - ID already exists: ${id}`);
+            }
+
+            result.set(id, info);
+        };
+
+        for (const pattern of this._interceptorPatterns.match(name)) {
+            for (const [id, info] of this._interceptors.get(pattern)!) {
+                add(id, info);
+            }
+        }
+
+        for (const [id, info] of this._interceptors.get(InjectHooksFilter) ||
+            []) {
+            if (typeof info.name === "function" && info.name(name)) {
+                add(id, info);
+            }
+        }
+
+        if (this._parent) {
+            for (const [id, info] of this._parent._getInterceptors(name)) {
+                add(id, info);
+            }
+        }
+
+        return result;
+    }
+
+    private _getKind(name: InjectHooksKey): InjectHooksKind {
+        return this._inherited((hooks) => hooks._kinds.get(name)) ?? "emit";
+    }
+
+    private _getPhases(name: InjectHooksKey): InjectHooksPhase[] {
+        return (
+            this._options.eventPhases?.[name] ??
+            this._options.phases ?? ["pre", "mid", "post"]
+        );
+    }
+
+    private _getOrderedInterceptors(
+        name: InjectHooksKey
+    ): InjectHooksInterceptorInfo[] {
+        const cached = this._interceptorsOrdered.get(name);
+
+        if (cached) {
+            return cached;
+        }
+
+        const map = this._getInterceptors(name);
+        this._replaceInterceptors(map);
+        this._verifyInterceptors(map);
+        const ordered = this._separateInterceptors(name, map).flatMap(
+            (phase) => this._orderInterceptors(phase)
+        );
+        this._interceptorsOrdered.set(name, ordered);
+
+        return ordered;
+    }
+
+    // Sinks added to a parent also see the spans of its scopes. The trace
+    // option is copied to scopes, so only the instance's own one is used.
+    private _getTraceSinks(): InjectHooksTraceSink[] {
+        const sinks = this._options.trace ? [this._options.trace] : [];
+        let hooks: InjectHooks<T> | undefined = this;
+
+        for (; hooks; hooks = hooks._parent) {
+            sinks.push(...hooks._sinks);
+        }
+
+        return sinks;
+    }
+
+    private _hasHandlers(name: InjectHooksKey): boolean {
+        return (
+            !!this._handlers.get(name)?.length ||
+            this._handlerPatterns.match(name).length > 0 ||
+            !!this._handlers
+                .get(InjectHooksFilter)
+                ?.some(
+                    (info) =>
+                        typeof info.name === "function" && info.name(name)
+                ) ||
+            (this._bubble && !!this._parent?._hasHandlers(name))
+        );
+    }
+
+    // Scopes use their parent's declarations unless they have their own
+    private _inherited<V>(
+        get: (hooks: InjectHooks<T>) => V | undefined
+    ): V | undefined {
+        let hooks: InjectHooks<T> | undefined = this;
+
+        while (hooks) {
+            const value = get(hooks);
+
+            if (value !== undefined) {
+                return value;
+            }
+
+            hooks = hooks._parent;
+        }
+
+        return undefined;
+    }
+
+    private _interceptedNames(): InjectHooksKey[] {
+        const names = new Set<InjectHooksKey>();
+        let hooks: InjectHooks<T> | undefined = this;
+
+        // Scopes also run the interceptors added to their parents
+        for (; hooks; hooks = hooks._parent) {
+            for (const name of hooks._interceptors.keys()) {
+                if (typeof name === "string" && !isPattern(name)) {
+                    names.add(name);
+                }
+            }
+        }
+
+        return [...names];
+    }
+
+    private _inSpan<R>(span: InjectHooksSpan | undefined, fn: () => R): R {
+        const previous = this._activeSpan;
+        this._activeSpan = span;
+
+        try {
+            return fn();
+        } finally {
+            this._activeSpan = previous;
+        }
+    }
+
+    private _lintEvent(event: InjectHooksKey): InjectHooksDiagnostic[] {
+        let map: Map<InjectHooksKey, InjectHooksInterceptorInfo>;
+
+        try {
+            this._getOrderedInterceptors(event);
+            map = this._getInterceptors(event);
+            this._replaceInterceptors(map);
+        } catch (error) {
+            return [
+                {
+                    severity: "error",
+                    code: "invalid",
+                    message: (error as Error).message.replace(
+                        /^InjectHooks - /,
+                        ""
+                    ),
+                    event
+                }
+            ];
+        }
+
+        const registered = [...new Set(map.values())].flatMap((info) =>
+            info.diagnostics.map((diagnostic) => ({ ...diagnostic, event }))
+        );
+
+        return [
+            ...registered,
+            ...lintOrder(event, map, this._getPhases(event))
+        ];
+    }
+
+    private _nameMatches(
+        pattern: InjectHooksKey | InjectHooksFilter,
+        name: InjectHooksKey
+    ): boolean {
+        if (typeof pattern === "function") {
+            return pattern(name);
+        }
+
+        if (isPattern(pattern)) {
+            return patternMatches(pattern, name);
+        }
+
+        return pattern === name;
+    }
+
+    private _orderInterceptors(
+        map: Map<InjectHooksKey, InjectHooksInterceptorInfo>
+    ): InjectHooksInterceptorInfo[] {
+        // Kahn's algorithm. Interceptors that are ready to run wait in a heap
+        // so ties are always broken by priority, then registration order.
+        const infos = [...new Set(map.values())].sort(
+            (a, b) =>
+                a.conditions.priority - b.conditions.priority ||
+                a.sequence - b.sequence
+        );
+        const indexes = new Map(infos.map((info, i) => [info, i]));
+        const positions = new Map(
+            [...map].map(([id, info]) => [id, indexes.get(info)!])
+        );
+        const successors = infos.map((): number[] => []);
+        const predecessors = infos.map((): number[] => []);
+        const waitingOn = infos.map(() => 0);
+        const link = (from: number | undefined, to: number | undefined) => {
+            if (from !== undefined && to !== undefined) {
+                successors[from].push(to);
+                predecessors[to].push(from);
+                waitingOn[to] += 1;
+            }
+        };
+
+        infos.forEach((info, i) => {
+            for (const after of info.conditions.after) {
+                link(positions.get(after), i);
+            }
+
+            for (const before of info.conditions.before) {
+                link(i, positions.get(before));
+            }
+        });
+
+        const ready = infos.map((_, i) => i).filter((i) => !waitingOn[i]);
+        const result = [];
+
+        while (ready.length) {
+            const i = heapPop(ready);
+            result.push(infos[i]);
+
+            for (const next of successors[i]) {
+                waitingOn[next] -= 1;
+
+                if (!waitingOn[next]) {
+                    heapPush(ready, next);
+                }
+            }
+        }
+
+        if (result.length < infos.length) {
+            // Everything left over waits on something else left over, so
+            // walking backwards from any of them must end up in a cycle.
+            const path: number[] = [];
+            const seen = new Map<number, number>();
+            let current = waitingOn.findIndex((count) => count > 0);
+
+            while (!seen.has(current)) {
+                seen.set(current, path.length);
+                path.push(current);
+                current = predecessors[current].find((i) => waitingOn[i] > 0)!;
+            }
+
+            const cycle = path.slice(seen.get(current)).reverse();
+            const first = cycle.indexOf(Math.min(...cycle));
+            const ids = [...cycle.slice(first), ...cycle.slice(0, first + 1)];
+            throw new Error(
+                `InjectHooks - Circular dependencies: ${ids.map((i) => infos[i].id).join(" -> ")}`
+            );
+        }
+
+        return result;
+    }
+
+    private _replaceInterceptors(
+        map: Map<InjectHooksKey, InjectHooksInterceptorInfo>
+    ) {
+        const replacers = new Map<InjectHooksId, InjectHooksInterceptorInfo>();
+
+        for (const info of map.values()) {
+            const target = info.conditions.replaces;
+            const other = target !== undefined && replacers.get(target);
+
+            if (other) {
+                throw new Error(
+                    `InjectHooks - ${other.id} and ${info.id} both replace ${target}`
+                );
+            }
+
+            if (target !== undefined) {
+                replacers.set(target, info);
+            }
+        }
+
+        // The replacer runs in the replaced interceptor's slot. Both IDs
+        // point at the slot, so conditions naming either one still apply.
+        // The slot inherits from the replacer's registration, so later
+        // changes to the registration are seen without reordering.
+        for (const info of [...replacers.values()].sort(
+            (a, b) => a.sequence - b.sequence
+        )) {
+            const replaced = map.get(info.conditions.replaces!);
+
+            if (!replaced || replaced === info || map.get(info.id) !== info) {
+                continue;
+            }
+
+            const slot: InjectHooksInterceptorInfo = Object.assign(
+                Object.create(info),
+                {
+                    sequence: replaced.sequence,
+                    conditions: {
+                        ...info.conditions,
+                        after: [
+                            ...replaced.conditions.after,
+                            ...info.conditions.after
+                        ],
+                        before: [
+                            ...replaced.conditions.before,
+                            ...info.conditions.before
+                        ],
+                        order: replaced.conditions.order,
+                        priority: replaced.conditions.priority
+                    }
+                }
+            );
+
+            for (const [id, value] of map) {
+                if (value === replaced || value === info) {
+                    map.set(id, slot);
+                }
+            }
+        }
+    }
+
+    private _replay(info: InjectHooksHandlerInfo, latest: boolean) {
+        const key =
+            typeof info.name === "function" ? InjectHooksFilter : info.name;
+        const { handler } = info;
+
+        for (const [name, sticky] of this._sticky) {
+            if (!this._nameMatches(info.name, name)) {
+                continue;
+            }
+
+            const payloads = latest
+                ? sticky.payloads.slice(-1)
+                : sticky.payloads;
+
+            for (const data of payloads) {
+                // Handlers removed before the replay runs, including a once()
+                // handler that was already called, are skipped.
+                this._schedule(() => {
+                    if (this._handlers.get(key)?.includes(info)) {
+                        try {
+                            handler(data, name);
+                        } catch (error) {
+                            this._report({ error, name, data, handler }, true);
+                        }
+                    }
+                });
+            }
+        }
+    }
+
+    private _report(info: InjectHooksErrorInfo, rethrow: boolean) {
+        if (this._options.onError) {
+            this._options.onError(info);
+        } else if (rethrow) {
+            // Nobody is listening for this failure. Surface it globally
+            // without interrupting anything else.
+            setTimeout(() => {
+                throw info.error;
+            });
+        }
+    }
+
+    private _removeHandler(info: InjectHooksHandlerInfo) {
+        const key =
+            typeof info.name === "function" ? InjectHooksFilter : info.name;
+        const a = this._handlers.get(key) ?? [];
+        const index = a.indexOf(info);
+
+        // Already removed, possibly by both off() and an aborted signal
+        if (index < 0) {
+            return;
+        }
+
+        a.splice(index, 1);
+        info.detach?.();
+
+        if (a.length === 0) {
+            this._handlers.delete(key);
+
+            if (isPattern(info.name)) {
+                this._handlerPatterns.delete(info.name);
+            }
+        }
+    }
+
+    private _removeInterceptor(info: InjectHooksInterceptorInfo) {
+        const key =
+            typeof info.name === "function" ? InjectHooksFilter : info.name;
+        const map = this._interceptors.get(key);
+
+        // The ID may have been removed and then reused by another interceptor
+        if (map?.get(info.id) !== info) {
+            return;
+        }
+
+        this._clearOrdered(info.name);
+        map.delete(info.id);
+        info.detach?.();
+
+        if (map.size === 0) {
+            this._interceptors.delete(key);
+
+            if (isPattern(info.name)) {
+                this._interceptorPatterns.delete(info.name);
+            }
+        }
+    }
+
+    // Recorders and trace sinks only watch the event, so their failures are
+    // reported without disturbing it.
+    private _safely(name: InjectHooksKey, data: any, watch: () => void) {
+        try {
+            watch();
+        } catch (error) {
+            this._report({ error, name, data }, true);
+        }
+    }
+
+    private _separateInterceptors(
+        name: InjectHooksKey,
+        map: Map<InjectHooksKey, InjectHooksInterceptorInfo>
+    ): Map<InjectHooksKey, InjectHooksInterceptorInfo>[] {
+        const phases = new Map<
+            InjectHooksPhase,
+            Map<InjectHooksKey, InjectHooksInterceptorInfo>
+        >();
+
+        for (const phase of this._getPhases(name)) {
+            phases.set(phase, new Map());
+        }
+
+        for (const [id, info] of map) {
+            const phase = phases.get(info.conditions.order);
+
+            if (!phase) {
+                throw new Error(
+                    `InjectHooks - ${info.id} uses undeclared phase ${info.conditions.order}`
+                );
+            }
+
+            phase.set(id, info);
+        }
+
+        return [...phases.values()];
+    }
+
+    private _sendPending(
+        name: keyof T & InjectHooksKey,
+        data: any,
+        pending: PendingEmit[]
+    ) {
+        const each = <A>(
+            pick: (entry: PendingEmit) => ((arg: A) => void) | undefined
+        ) => {
+            const list = pending.map(pick).filter((fn) => !!fn);
+
+            return list.length
+                ? (arg: A) => list.forEach((fn) => fn!(arg))
+                : undefined;
+        };
+        const errback = each<unknown>((entry) => entry.errback);
+
+        // Most of these are sent from a timer, so interceptor setup errors
+        // go to the callers that are waiting whenever there are any.
+        try {
+            this._dispatch(
+                name,
+                data,
+                each((entry) => entry.done),
+                each((entry) => entry.callback),
+                errback
+            );
+        } catch (error) {
+            if (!errback) {
+                throw error;
+            }
+
+            errback(error);
+        }
+    }
+
+    private _startSpan(
+        parent: InjectHooksSpan | undefined,
+        kind: InjectHooksSpan["kind"],
+        name: InjectHooksKey,
+        input: any,
+        id?: InjectHooksId
+    ): InjectHooksSpan | undefined {
+        if (!this._getTraceSinks().length) {
+            return undefined;
+        }
+
+        lastSpanId += 1;
+        const spanId = `${lastSpanId}`;
+
+        return {
+            traceId: parent ? parent.traceId : spanId,
+            spanId,
+            parentId: parent?.spanId,
+            depth: parent ? parent.depth + 1 : 0,
+            kind,
+            name,
+            id,
+            start: performance.now(),
+            input
+        };
+    }
+
     private _transform<KEY extends keyof T & string>(
         name: KEY,
         data: T[KEY],
-        callback: InjectHooksCallback
+        parent: InjectHooksSpan | undefined,
+        errback: (error: unknown, id: InjectHooksId, stopped: boolean) => void,
+        callback: (result: InjectHooksResult<T[KEY]>) => void
     ): this {
-        const runNext = (interceptors: InjectHooksInterceptor<string, any>[], data: any) => {
-            const interceptor = interceptors.shift();
+        const interceptors = this._getOrderedInterceptors(name);
+        const disabled = this._getDisabled(interceptors, name, data, errback);
+
+        if (!disabled) {
+            return this;
+        }
+
+        const original = data;
+        const runNext = (index: number, data: any) => {
+            const info = interceptors[index];
+
+            if (!info) {
+                callback({ status: "delivered", data });
+
+                return;
+            }
+
+            if (disabled.has(info)) {
+                this._endSpan(
+                    this._startSpan(parent, "interceptor", name, data, info.id),
+                    "skipped",
+                    data
+                );
+                runNext(index + 1, data);
+
+                return;
+            }
 
-            if (interceptor) {
-                interceptor(
+            // Only the first of next(), next.cancel(), a failure or the
+            // timeout is allowed to continue or end the event.
+            let settled = false;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const span = this._startSpan(
+                parent,
+                "interceptor",
+                name,
+                data,
+                info.id
+            );
+            const once =
+                <A extends any[]>(fn: (...args: A) => void) =>
+                (...args: A) => {
+                    if (!settled) {
+                        settled = true;
+                        clearTimeout(timer);
+                        fn(...args);
+                    }
+                };
+            const next = once((data: any) => {
+                this._endSpan(span, "ok", data);
+                runNext(index + 1, data);
+            }) as InjectHooksNext;
+            next.cancel = once((reason?: unknown) => {
+                this._endSpan(span, "cancelled", data, reason);
+                callback({
+                    status: "cancelled",
                     data,
-                    (data) => {
-                        runNext(interceptors, data);
-                    },
-                    name
+                    cancelledBy: info.id,
+                    reason
+                });
+            });
+            const fail = (error: unknown) => {
+                clearTimeout(timer);
+                this._endSpan(span, "error", undefined, error);
+                errback(error, info.id, !settled);
+                settled = true;
+            };
+            const timeout = info.conditions.timeout ?? this._options.timeout;
+
+            if (timeout) {
+                timer = setTimeout(() => {
+                    const error = new InjectHooksTimeoutError(
+                        name,
+                        info.id,
+                        timeout
+                    );
+                    const policy = this._options.timeoutPolicy || "error";
+
+                    if (policy === "skip") {
+                        this._endSpan(span, "skipped", data, error);
+
+                        if (this._options.onError) {
+                            this._options.onError({
+                                error,
+                                name,
+                                data: original,
+                                id: info.id
+                            });
+                        }
+
+                        next(data);
+                    } else if (policy === "cancel") {
+                        next.cancel(error);
+                    } else {
+                        fail(error);
+                    }
+                }, timeout);
+            }
+
+            try {
+                const returned = this._inSpan(span, () =>
+                    info.injector(data, next, name)
                 );
-            } else {
-                callback(data);
+
+                // Interceptors that take next() may return a Promise just
+                // to do their own work, so an undefined result from them
+                // does not continue the event.
+                if (isPromiseLike(returned)) {
+                    returned.then((value) => {
+                        if (value !== undefined || info.injector.length < 2) {
+                            next(value);
+                        }
+                    }, fail);
+                }
+            } catch (error) {
+                fail(error);
             }
         };
-        runNext(this._getOrderedInterceptors(name), data);
+        runNext(0, data);
 
         return this;
     }
 
+    private _validate(
+        name: InjectHooksKey,
+        data: any,
+        afterInterceptors: boolean
+    ): InjectHooksValidationError | undefined {
+        const info = this._inherited((hooks) => hooks._schemas.get(name));
+
+        if (!info || (afterInterceptors && !info.afterInterceptors)) {
+            return undefined;
+        }
+
+        const issues: InjectHooksSchemaIssue[] = [];
+
+        // The schema of a batched event describes one item of the array
+        if (
+            afterInterceptors &&
+            this._limiters.get(name)?.batches &&
+            Array.isArray(data)
+        ) {
+            data.forEach((item, i) => info.check(item, `[${i}]`, issues));
+        } else {
+            info.check(data, "", issues);
+        }
+
+        return issues.length
+            ? new InjectHooksValidationError(name, issues, afterInterceptors)
+            : undefined;
+    }
+
     private _verifyInterceptors(
         map: Map<InjectHooksKey, InjectHooksInterceptorInfo>
     ) {
-        // Verify depends and conflicts
+        // Verify depends and conflicts. Disabled interceptors are still
+        // registered and count here; see _getDisabled() for what happens to
+        // their dependents during an emit.
         for (const info of map.values()) {
             for (const depend of info.conditions.depends) {
                 if (!map.has(depend)) {
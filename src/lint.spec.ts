@@ -0,0 +1,79 @@
+import { lintConditions, lintOrder, LintInfo, suggest } from "./lint";
+import test from "ava";
+
+function info(
+    id: string,
+    conditions: Partial<LintInfo["conditions"]> = {}
+): LintInfo {
+    return {
+        id,
+        conditions: {
+            after: [],
+            before: [],
+            conflicts: [],
+            depends: [],
+            order: "mid",
+            priority: 0,
+            ...conditions
+        }
+    };
+}
+
+test("suggests close matches only", (t) => {
+    const ids = ["core:load-page", "core:save-page"];
+    t.is(suggest("core:load-pgae", ids), "core:load-page");
+    t.is(suggest("befor", ["after", "before"]), "before");
+    t.is(suggest("something-else", ids), undefined);
+    t.is(suggest("a", ["b"]), "b");
+    t.is(suggest("ab", ["cd"]), undefined);
+});
+
+test("finds problems in one set of conditions", (t) => {
+    const diagnostics = lintConditions("one", {
+        befor: "two",
+        after: ["one", "three"],
+        before: "three",
+        depends: "four",
+        conflicts: ["four"]
+    } as object);
+    t.deepEqual(
+        diagnostics.map((item) => [item.code, item.message]),
+        [
+            [
+                "unknown-condition",
+                "one has unknown condition befor, did you mean before?"
+            ],
+            ["self-reference", "one lists itself in after"],
+            ["contradiction", "one is both before and after three"],
+            ["contradiction", "one both depends on and conflicts with four"]
+        ]
+    );
+    t.is(diagnostics[0].suggestion, "before");
+    t.deepEqual(lintConditions("one", { after: "two", order: "pre" }), []);
+});
+
+test("finds unknown IDs and orders that phases contradict", (t) => {
+    const load = info("core:load-page");
+    const map = new Map([
+        ["core:load-page", load],
+        ["alter", info("alter", { after: ["core:load-pgae"] })],
+        ["audit", info("audit", { order: "post", before: ["core:load-page"] })],
+        ["auth", info("auth", { order: "pre", before: ["core:load-page"] })]
+    ]);
+    const diagnostics = lintOrder("load", map, ["pre", "mid", "post"]);
+    t.deepEqual(
+        diagnostics.map((item) => [item.code, item.id, item.message]),
+        [
+            [
+                "unknown-id",
+                "alter",
+                "alter is ordered after unknown ID core:load-pgae on load, did you mean core:load-page?"
+            ],
+            [
+                "contradiction",
+                "audit",
+                "audit is ordered before core:load-page on load, which runs in an earlier phase"
+            ]
+        ]
+    );
+});
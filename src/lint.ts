@@ -0,0 +1,210 @@
+import type {
+    InjectHooksConditions,
+    InjectHooksConditionsAbsolute,
+    InjectHooksId,
+    InjectHooksKey,
+    InjectHooksPhase
+} from "./inject-hooks";
+
+export interface InjectHooksDiagnostic {
+    severity: "error" | "warning";
+    code:
+        | "unknown-condition"
+        | "unknown-id"
+        | "self-reference"
+        | "contradiction"
+        | "invalid"
+        | "no-handlers"
+        | "never-emitted";
+    message: string;
+    event?: InjectHooksKey;
+    id?: InjectHooksId;
+    suggestion?: string;
+}
+export interface LintInfo {
+    id: InjectHooksId;
+    conditions: InjectHooksConditionsAbsolute;
+}
+
+const conditionKeys = [
+    "after",
+    "before",
+    "conflicts",
+    "depends",
+    "order",
+    "priority",
+    "replaces",
+    "signal",
+    "timeout"
+];
+const idKeys = ["after", "before", "conflicts", "depends", "replaces"] as const;
+
+export class InjectHooksLintError extends Error {
+    constructor(public diagnostics: InjectHooksDiagnostic[]) {
+        const more =
+            diagnostics.length > 1
+                ? ` (and ${diagnostics.length - 1} more)`
+                : "";
+        super(`InjectHooks - ${diagnostics[0].message}${more}`);
+        this.name = "InjectHooksLintError";
+    }
+}
+
+// Levenshtein distance, keeping only the previous row of the table.
+function distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i += 1) {
+        const row = [i];
+
+        for (let j = 1; j <= b.length; j += 1) {
+            row.push(
+                Math.min(
+                    previous[j] + 1,
+                    row[j - 1] + 1,
+                    previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+                )
+            );
+        }
+
+        previous = row;
+    }
+
+    return previous[b.length];
+}
+
+export function suggest(
+    word: string,
+    candidates: Iterable<string>
+): string | undefined {
+    let best: string | undefined;
+    let bestDistance = Math.max(1, Math.floor(word.length / 3)) + 1;
+
+    for (const candidate of candidates) {
+        const d = distance(word, candidate);
+
+        if (d < bestDistance) {
+            best = candidate;
+            bestDistance = d;
+        }
+    }
+
+    return best;
+}
+
+function didYouMean(message: string, suggestion: string | undefined) {
+    return suggestion ? `${message}, did you mean ${suggestion}?` : message;
+}
+
+// Problems that can be seen from one registration, without knowing which
+// other interceptors will be added later.
+export function lintConditions(
+    id: InjectHooksId,
+    conditions: InjectHooksConditions
+): InjectHooksDiagnostic[] {
+    const diagnostics: InjectHooksDiagnostic[] = [];
+    const error = (
+        code: InjectHooksDiagnostic["code"],
+        message: string,
+        suggestion?: string
+    ) => diagnostics.push({ severity: "error", code, message, id, suggestion });
+    const list = (key: (typeof idKeys)[number]) =>
+        ([] as (InjectHooksId | undefined)[]).concat(conditions[key]);
+
+    for (const key of Object.keys(conditions)) {
+        if (!conditionKeys.includes(key)) {
+            const suggestion = suggest(key, conditionKeys);
+            error(
+                "unknown-condition",
+                didYouMean(`${id} has unknown condition ${key}`, suggestion),
+                suggestion
+            );
+        }
+    }
+
+    for (const key of idKeys) {
+        if (list(key).includes(id)) {
+            error("self-reference", `${id} lists itself in ${key}`);
+        }
+    }
+
+    for (const other of list("before")) {
+        if (other !== undefined && list("after").includes(other)) {
+            error("contradiction", `${id} is both before and after ${other}`);
+        }
+    }
+
+    for (const other of list("depends")) {
+        if (other !== undefined && list("conflicts").includes(other)) {
+            error(
+                "contradiction",
+                `${id} both depends on and conflicts with ${other}`
+            );
+        }
+    }
+
+    return diagnostics;
+}
+
+// Problems with the interceptors of one event. The map holds every ID that
+// can be referred to, including the IDs of replaced interceptors.
+export function lintOrder(
+    event: InjectHooksKey,
+    map: Map<InjectHooksId, LintInfo>,
+    phases: InjectHooksPhase[]
+): InjectHooksDiagnostic[] {
+    const diagnostics: InjectHooksDiagnostic[] = [];
+
+    for (const info of new Set(map.values())) {
+        const { id, conditions } = info;
+        const phase = phases.indexOf(conditions.order);
+        const check = (other: InjectHooksId, relation: "before" | "after") => {
+            const target = map.get(other);
+
+            if (!target) {
+                const suggestion = suggest(other, map.keys());
+                diagnostics.push({
+                    severity: "error",
+                    code: "unknown-id",
+                    message: didYouMean(
+                        `${id} is ordered ${relation} unknown ID ${other} on ${event}`,
+                        suggestion
+                    ),
+                    event,
+                    id,
+                    suggestion
+                });
+
+                return;
+            }
+
+            const targetPhase = phases.indexOf(target.conditions.order);
+
+            if (
+                target !== info &&
+                (relation === "before"
+                    ? targetPhase < phase
+                    : targetPhase > phase)
+            ) {
+                const which = relation === "before" ? "an earlier" : "a later";
+                diagnostics.push({
+                    severity: "error",
+                    code: "contradiction",
+                    message: `${id} is ordered ${relation} ${other} on ${event}, which runs in ${which} phase`,
+                    event,
+                    id
+                });
+            }
+        };
+
+        for (const other of conditions.before) {
+            check(other, "before");
+        }
+
+        for (const other of conditions.after) {
+            check(other, "after");
+        }
+    }
+
+    return diagnostics;
+}
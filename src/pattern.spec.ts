@@ -0,0 +1,62 @@
+import { isPattern, PatternIndex, patternMatches } from "./pattern";
+import test from "ava";
+
+test("isPattern detects wildcards and braces", (t) => {
+    t.true(isPattern("login:*"));
+    t.true(isPattern("users:{row,column}:hover"));
+    t.false(isPattern("login:form:submit"));
+    t.false(isPattern(() => true));
+});
+
+test("single star matches exactly one segment", (t) => {
+    t.true(patternMatches("login:*", "login:submit"));
+    t.false(patternMatches("login:*", "login"));
+    t.false(patternMatches("login:*", "login:form:submit"));
+    t.true(patternMatches("login:form-*", "login:form-submit"));
+});
+
+test("double star matches any number of segments", (t) => {
+    t.true(patternMatches("**:submit", "submit"));
+    t.true(patternMatches("**:submit", "login:form:submit"));
+    t.false(patternMatches("**:submit", "login:form:reset"));
+    t.true(patternMatches("login:**", "login"));
+    t.true(patternMatches("login:**", "login:form:submit"));
+    t.true(patternMatches("a:**:b:**:c", "a:x:b:y:z:c"));
+    t.false(patternMatches("a:**:b:**:c", "a:x:y:z:c"));
+});
+
+test("braces match alternatives", (t) => {
+    t.true(patternMatches("users:{row,column}:hover", "users:row:hover"));
+    t.true(patternMatches("users:{row,column}:hover", "users:column:hover"));
+    t.false(patternMatches("users:{row,column}:hover", "users:cell:hover"));
+    t.throws(() => patternMatches("users:{row:hover", "users:row:hover"), {
+        message: /unclosed brace/
+    });
+});
+
+test("other characters are literal", (t) => {
+    t.true(patternMatches("a.b:*", "a.b:c"));
+    t.false(patternMatches("a.b:*", "axb:c"));
+});
+
+test("index returns matching patterns in the order they were added", (t) => {
+    const index = new PatternIndex();
+    index.add("**:submit");
+    index.add("login:*");
+    index.add("users:*:hover");
+    t.deepEqual(index.match("login:submit"), ["**:submit", "login:*"]);
+    t.deepEqual(index.match("users:row:hover"), ["users:*:hover"]);
+    t.deepEqual(index.match("other"), []);
+});
+
+test("index updates cached matches when patterns change", (t) => {
+    const index = new PatternIndex();
+    index.add("login:*");
+    t.deepEqual(index.match("login:submit"), ["login:*"]);
+    index.add("*:submit");
+    t.deepEqual(index.match("login:submit"), ["login:*", "*:submit"]);
+    index.delete("login:*");
+    t.deepEqual(index.match("login:submit"), ["*:submit"]);
+    index.delete("missing:*");
+    t.deepEqual(index.match("login:submit"), ["*:submit"]);
+});
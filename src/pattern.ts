@@ -0,0 +1,191 @@
+import type { InjectHooksKey } from "./inject-hooks";
+
+export type InjectHooksPattern =
+    | `${string}*${string}`
+    | `${string}{${string}}${string}`;
+type Segment = RegExp | "**";
+interface PatternNode {
+    children: Map<string, PatternNode>;
+    patterns: Map<InjectHooksPattern, Segment[]>;
+}
+
+export function isPattern(name: unknown): name is InjectHooksPattern {
+    return typeof name === "string" && /[*{]/.test(name);
+}
+
+function isLiteral(segment: string) {
+    return !/[*{]/.test(segment);
+}
+
+function compileSegment(pattern: string, segment: string): Segment {
+    if (segment === "**") {
+        return segment;
+    }
+
+    let source = "";
+    let inBraces = false;
+
+    for (const char of segment) {
+        if (char === "*") {
+            source += "[^:]*";
+        } else if (char === "{" && !inBraces) {
+            source += "(?:";
+            inBraces = true;
+        } else if (char === "}" && inBraces) {
+            source += ")";
+            inBraces = false;
+        } else if (char === "," && inBraces) {
+            source += "|";
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+
+    if (inBraces) {
+        throw new Error(`InjectHooks - unclosed brace in pattern: ${pattern}`);
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+function compile(pattern: InjectHooksPattern): Segment[] {
+    return pattern
+        .split(":")
+        .map((segment) => compileSegment(pattern, segment));
+}
+
+function newNode(): PatternNode {
+    return { children: new Map(), patterns: new Map() };
+}
+
+export function patternMatches(
+    pattern: InjectHooksPattern,
+    name: InjectHooksKey
+): boolean {
+    return matchSegments(compile(pattern), name.split(":"));
+}
+
+function matchSegments(segments: Segment[], parts: string[]): boolean {
+    // "**" can swallow any number of parts, so remember failed attempts to
+    // avoid exponential backtracking.
+    const failed = new Set<number>();
+    const match = (s: number, p: number): boolean => {
+        const key = s * (parts.length + 1) + p;
+
+        if (failed.has(key)) {
+            return false;
+        }
+
+        const segment = segments[s];
+        let result: boolean;
+
+        if (segment === undefined) {
+            result = p === parts.length;
+        } else if (segment === "**") {
+            result = match(s + 1, p) || (p < parts.length && match(s, p + 1));
+        } else {
+            result =
+                p < parts.length &&
+                segment.test(parts[p]) &&
+                match(s + 1, p + 1);
+        }
+
+        if (!result) {
+            failed.add(key);
+        }
+
+        return result;
+    };
+
+    return match(0, 0);
+}
+
+// Patterns are stored in a tree keyed by their leading literal segments, so
+// "users:row:*" is only tested against names starting with "users:row".
+export class PatternIndex {
+    private _cache = new Map<InjectHooksKey, InjectHooksPattern[]>();
+    private _order = new Map<InjectHooksPattern, number>();
+    private _root = newNode();
+    private _sequence = 0;
+
+    add(pattern: InjectHooksPattern): this {
+        if (!this._order.has(pattern)) {
+            const segments = compile(pattern);
+            let node = this._root;
+
+            for (const segment of pattern.split(":")) {
+                if (!isLiteral(segment)) {
+                    break;
+                }
+
+                node =
+                    node.children.get(segment) ||
+                    node.children.set(segment, newNode()).get(segment)!;
+            }
+
+            node.patterns.set(pattern, segments);
+            this._sequence += 1;
+            this._order.set(pattern, this._sequence);
+            this._invalidate(segments);
+        }
+
+        return this;
+    }
+
+    delete(pattern: InjectHooksPattern): this {
+        let node: PatternNode | undefined = this._root;
+
+        for (const segment of pattern.split(":")) {
+            if (!node || !isLiteral(segment)) {
+                break;
+            }
+
+            node = node.children.get(segment);
+        }
+
+        const segments = node?.patterns.get(pattern);
+
+        if (node && segments) {
+            node.patterns.delete(pattern);
+            this._order.delete(pattern);
+            this._invalidate(segments);
+        }
+
+        return this;
+    }
+
+    match(name: InjectHooksKey): InjectHooksPattern[] {
+        const cached = this._cache.get(name);
+
+        if (cached) {
+            return cached;
+        }
+
+        const parts = name.split(":");
+        const result: InjectHooksPattern[] = [];
+        let node: PatternNode | undefined = this._root;
+
+        for (let i = 0; node && i <= parts.length; i += 1) {
+            for (const [pattern, segments] of node.patterns) {
+                if (matchSegments(segments, parts)) {
+                    result.push(pattern);
+                }
+            }
+
+            node = node.children.get(parts[i]);
+        }
+
+        result.sort((a, b) => this._order.get(a)! - this._order.get(b)!);
+        this._cache.set(name, result);
+
+        return result;
+    }
+
+    private _invalidate(segments: Segment[]) {
+        for (const name of this._cache.keys()) {
+            if (matchSegments(segments, name.split(":"))) {
+                this._cache.delete(name);
+            }
+        }
+    }
+}
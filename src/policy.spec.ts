@@ -0,0 +1,103 @@
+import { EmitLimiter, InjectHooksPolicy, PendingEmit } from "./policy";
+import test from "ava";
+
+async function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function limiter(policy: InjectHooksPolicy) {
+    const sent: any[] = [];
+    const errors: unknown[] = [];
+    const result = new EmitLimiter("test", policy, (data, pending) => {
+        sent.push(data);
+        pending.forEach((entry) => entry.callback?.(data));
+    });
+    const add = (data: any) => {
+        const entry: PendingEmit = {
+            data,
+            errback: (error) => errors.push(error)
+        };
+        result.add(entry);
+    };
+
+    return { add, errors, limiter: result, sent };
+}
+
+test("debounce sends the last payload once things are quiet", async (t) => {
+    const { add, sent } = limiter({ type: "debounce", wait: 30 });
+    add(1);
+    add(2);
+    await sleep(10);
+    add(3);
+    t.deepEqual(sent, []);
+    await sleep(80);
+    t.deepEqual(sent, [3]);
+});
+
+test("debounce can send on the leading edge", async (t) => {
+    const { add, errors, sent } = limiter({
+        type: "debounce",
+        wait: 30,
+        leading: true,
+        trailing: false
+    });
+    add(1);
+    add(2);
+    t.deepEqual(sent, [1]);
+    await sleep(80);
+    add(3);
+    t.deepEqual(sent, [1, 3]);
+    t.is(errors.length, 1);
+    t.is((errors[0] as Error).message, "InjectHooks - test emit was dropped");
+});
+
+test("throttle sends at most once per window", async (t) => {
+    const { add, sent } = limiter({ type: "throttle", wait: 40 });
+    add(1);
+    add(2);
+    add(3);
+    t.deepEqual(sent, [1]);
+    await sleep(60);
+    t.deepEqual(sent, [1, 3]);
+    add(4);
+    t.deepEqual(sent, [1, 3]);
+    await sleep(60);
+    t.deepEqual(sent, [1, 3, 4]);
+});
+
+test("batch sends arrays when full or when the window ends", async (t) => {
+    const { add, sent } = limiter({ type: "batch", wait: 30, size: 3 });
+    add(1);
+    add(2);
+    add(3);
+    add(4);
+    t.deepEqual(sent, [[1, 2, 3]]);
+    await sleep(80);
+    t.deepEqual(sent, [[1, 2, 3], [4]]);
+});
+
+test("pending emits can be flushed or dropped", (t) => {
+    const { add, errors, limiter: result, sent } = limiter({
+        type: "batch",
+        wait: 1000
+    });
+    add(1);
+    add(2);
+    result.flush();
+    t.deepEqual(sent, [[1, 2]]);
+    add(3);
+    result.drop();
+    result.flush();
+    t.deepEqual(sent, [[1, 2]]);
+    t.is(errors.length, 1);
+});
+
+test("policies are checked", (t) => {
+    t.throws(() => limiter({ type: "nope" as "batch", wait: 1 }), {
+        message: "InjectHooks - unknown emit policy: nope"
+    });
+    t.throws(() => limiter({ type: "batch", wait: NaN }), {
+        message:
+            "InjectHooks - test policy wait must be a number of milliseconds"
+    });
+});
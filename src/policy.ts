@@ -0,0 +1,143 @@
+import type { InjectHooksKey } from "./inject-hooks";
+
+declare const batched: unique symbol;
+
+// Handlers and interceptors of a batched event receive an array, while each
+// emit still sends a single item. The brand only exists in the types.
+export type InjectHooksBatch<VALUE> = VALUE[] & { readonly [batched]: VALUE };
+export type InjectHooksEmitted<VALUE> =
+    VALUE extends InjectHooksBatch<infer ITEM> ? ITEM : VALUE;
+export type InjectHooksPolicy =
+    | {
+          type: "debounce" | "throttle";
+          wait: number;
+          leading?: boolean;
+          trailing?: boolean;
+      }
+    | { type: "batch"; wait: number; size?: number };
+export interface PendingEmit {
+    data: any;
+    done?: (data: any) => void;
+    callback?: (result: any) => void;
+    errback?: (error: unknown) => void;
+}
+
+const policyTypes = ["debounce", "throttle", "batch"];
+
+export class EmitLimiter {
+    private _pending: PendingEmit[] = [];
+    private _timer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        private _name: InjectHooksKey,
+        private _policy: InjectHooksPolicy,
+        private _send: (data: any, pending: PendingEmit[]) => void
+    ) {
+        if (!policyTypes.includes(_policy.type)) {
+            throw new Error(
+                `InjectHooks - unknown emit policy: ${_policy.type}`
+            );
+        }
+
+        if (!(_policy.wait >= 0)) {
+            throw new Error(
+                `InjectHooks - ${_name} policy wait must be a number of milliseconds`
+            );
+        }
+    }
+
+    get batches(): boolean {
+        return this._policy.type === "batch";
+    }
+
+    add(entry: PendingEmit) {
+        const policy = this._policy;
+
+        if (policy.type === "batch") {
+            this._pending.push(entry);
+
+            if (policy.size && this._pending.length >= policy.size) {
+                this.flush();
+            } else if (!this._timer) {
+                this._timer = setTimeout(() => this.flush(), policy.wait);
+            }
+        } else if (policy.type === "debounce") {
+            const idle = !this._timer;
+            clearTimeout(this._timer);
+            this._timer = setTimeout(() => {
+                this._timer = undefined;
+                this.flush();
+            }, policy.wait);
+
+            if (idle && policy.leading) {
+                this._send(entry.data, [entry]);
+            } else {
+                this._hold(entry, policy.trailing ?? true);
+            }
+        } else if (this._timer) {
+            this._hold(entry, policy.trailing ?? true);
+        } else {
+            this._startWindow();
+
+            if (policy.leading ?? true) {
+                this._send(entry.data, [entry]);
+            } else {
+                this._pending.push(entry);
+            }
+        }
+    }
+
+    drop() {
+        clearTimeout(this._timer);
+        this._timer = undefined;
+
+        for (const entry of this._pending.splice(0)) {
+            this._reject(entry);
+        }
+    }
+
+    flush() {
+        clearTimeout(this._timer);
+        this._timer = undefined;
+        const pending = this._pending.splice(0);
+
+        if (!pending.length) {
+            return;
+        }
+
+        // Everyone that was waiting shares the one emit that is sent.
+        this._send(
+            this._policy.type === "batch"
+                ? pending.map((entry) => entry.data)
+                : pending[pending.length - 1].data,
+            pending
+        );
+    }
+
+    private _hold(entry: PendingEmit, trailing: boolean) {
+        if (trailing) {
+            this._pending.push(entry);
+        } else {
+            this._reject(entry);
+        }
+    }
+
+    private _reject(entry: PendingEmit) {
+        entry.errback?.(
+            new Error(`InjectHooks - ${this._name} emit was dropped`)
+        );
+    }
+
+    // A throttle window that sends something starts another window, so
+    // emits keep being spaced out while they keep coming.
+    private _startWindow() {
+        this._timer = setTimeout(() => {
+            this._timer = undefined;
+
+            if (this._pending.length) {
+                this.flush();
+                this._startWindow();
+            }
+        }, this._policy.wait);
+    }
+}
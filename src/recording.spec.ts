@@ -0,0 +1,159 @@
+import {
+    InjectHooks,
+    InjectHooksRecorder,
+    InjectHooksReplayer,
+    InjectHooksSerializer
+} from "./inject-hooks";
+import test from "ava";
+
+function setup(hooks: InjectHooks) {
+    hooks.inject("save", "upper", (d: string, next) =>
+        next(d.toUpperCase())
+    );
+    hooks.inject("save", "block", (d: string, next) =>
+        d === "STOP" ? next.cancel("blocked") : next(d)
+    );
+    hooks.inject("save", "fail", (d: string, next) => {
+        if (d === "FAIL") {
+            throw new Error("broken");
+        }
+
+        next(d);
+    });
+}
+
+test("recorder writes one line per emit", async (t) => {
+    const lines: string[] = [];
+    const hooks = new InjectHooks({
+        recorder: new InjectHooksRecorder((line) => lines.push(line)),
+        onError: () => {}
+    });
+    setup(hooks);
+    await hooks.emitAsync("save", "a");
+    await hooks.emitAsync("save", "stop");
+    await t.throwsAsync(hooks.emitAsync("save", "fail"));
+    t.true(lines.every((line) => line.endsWith("\n")));
+    const records = lines.map((line) => JSON.parse(line));
+    t.like(records[0], {
+        name: "save",
+        status: "delivered",
+        input: "a",
+        output: "A"
+    });
+    t.like(records[1], {
+        status: "cancelled",
+        input: "stop",
+        output: "STOP",
+        cancelledBy: "block",
+        reason: "blocked"
+    });
+    t.like(records[2], {
+        status: "error",
+        input: "fail",
+        error: { name: "Error", message: "broken" }
+    });
+    t.true(records.every((record) => record.duration >= 0));
+    t.true(records[0].start <= records[1].start);
+});
+
+test("recorder keeps the input as it was emitted", async (t) => {
+    const lines: string[] = [];
+    const errors: unknown[] = [];
+    const hooks = new InjectHooks({
+        recorder: new InjectHooksRecorder((line) => lines.push(line)),
+        onError: ({ error }) => errors.push(error)
+    });
+    hooks.inject("save", "stamp", (d: Record<string, unknown>, next) => {
+        d.stamped = true;
+        next(d);
+    });
+    await hooks.emitAsync("save", { id: 1 });
+    t.like(JSON.parse(lines[0]), {
+        input: { id: 1 },
+        output: { id: 1, stamped: true }
+    });
+
+    // Payloads the serializer can not handle do not stop the event
+    const result = await hooks.emitAsync("save", { id: 2n });
+    t.is(result.status, "delivered");
+    t.is(lines.length, 1);
+    t.is(errors.length, 2);
+    t.true(errors.every((error) => error instanceof TypeError));
+});
+
+test("replayer feeds a recording into another instance", async (t) => {
+    let recording = "";
+    const original = new InjectHooks({
+        recorder: new InjectHooksRecorder((line) => (recording += line)),
+        onError: () => {}
+    });
+    setup(original);
+
+    for (const data of ["a", "stop", "fail", "b"]) {
+        await original.emitAsync("save", data).catch(() => {});
+    }
+
+    const calls: string[] = [];
+    const fresh = new InjectHooks({ onError: () => {} });
+    setup(fresh);
+    fresh.on("save", (d) => calls.push(d));
+    const results = await new InjectHooksReplayer().replay(fresh, recording);
+    t.deepEqual(calls, ["A", "B"]);
+    t.deepEqual(
+        results.map((item) => item.matches),
+        [true, true, true, true]
+    );
+    t.is(results[1].result?.cancelledBy, "block");
+    t.is((results[2].error as Error).message, "broken");
+
+    // A changed interceptor no longer matches the recording
+    fresh.remove("save", "upper");
+    const changed = await new InjectHooksReplayer().replay(fresh, recording);
+    t.false(changed[0].matches);
+});
+
+test("replayer can keep the original timing", async (t) => {
+    const replayer = new InjectHooksReplayer();
+    const records = replayer.parse(
+        [
+            '{"name":"two","start":70,"duration":0,"status":"delivered","input":2,"output":2}',
+            '{"name":"one","start":10,"duration":0,"status":"delivered","input":1,"output":1}'
+        ].join("\n")
+    );
+    t.deepEqual(
+        records.map((record) => record.name),
+        ["one", "two"]
+    );
+    const hooks = new InjectHooks();
+    const times: number[] = [];
+    hooks.on(() => true, () => times.push(Date.now()));
+    const started = Date.now();
+    const results = await replayer.replay(hooks, records, { timing: true });
+    t.true(results.every((item) => item.matches));
+
+    // Timers never fire early, but a busy machine can make them late
+    t.true(times[1] - started >= 55);
+});
+
+test("serializers handle payloads that are not JSON", async (t) => {
+    const serializer: InjectHooksSerializer = {
+        serialize: (value) =>
+            value instanceof Map ? { $map: [...value] } : value,
+        deserialize: (value) => (value?.$map ? new Map(value.$map) : value)
+    };
+    let recording = "";
+    const original = new InjectHooks({
+        recorder: new InjectHooksRecorder(
+            (line) => (recording += line),
+            serializer
+        )
+    });
+    await original.emitAsync("load", new Map([["a", 1]]));
+    t.deepEqual(JSON.parse(recording).input, { $map: [["a", 1]] });
+
+    const received: unknown[] = [];
+    const fresh = new InjectHooks();
+    fresh.on("load", (d) => received.push(d));
+    await new InjectHooksReplayer(serializer).replay(fresh, recording);
+    t.deepEqual(received, [new Map([["a", 1]])]);
+});
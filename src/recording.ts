@@ -0,0 +1,153 @@
+import type {
+    InjectHooks,
+    InjectHooksRecord,
+    InjectHooksRecordSink,
+    InjectHooksResult
+} from "./inject-hooks";
+
+export interface InjectHooksSerializer {
+    serialize(value: any): any;
+    deserialize(value: any): any;
+}
+export interface InjectHooksReplayOptions {
+    timing?: boolean;
+}
+export interface InjectHooksReplayResult {
+    record: InjectHooksRecord;
+    result?: InjectHooksResult<any>;
+    error?: unknown;
+    matches: boolean;
+}
+
+// Errors have no enumerable properties and would otherwise be written as {}.
+const jsonSerializer: InjectHooksSerializer = {
+    serialize: (value) =>
+        value instanceof Error
+            ? { name: value.name, message: value.message }
+            : value,
+    deserialize: (value) => value
+};
+const payloadKeys = ["input", "output", "reason", "error"] as const;
+
+// An input that was already serialized when its emit started
+class Snapshot {
+    constructor(public json: string | undefined) {}
+}
+
+function convert(
+    record: InjectHooksRecord,
+    fn: (value: any) => any
+): InjectHooksRecord {
+    const result = { ...record };
+
+    for (const key of payloadKeys) {
+        if (key in record) {
+            result[key] = fn(record[key]);
+        }
+    }
+
+    return result;
+}
+
+export class InjectHooksRecorder implements InjectHooksRecordSink {
+    private _origin = performance.now();
+
+    constructor(
+        private _write: (line: string) => void,
+        private _serializer: InjectHooksSerializer = jsonSerializer
+    ) {}
+
+    record(record: InjectHooksRecord) {
+        const line = convert(
+            { ...record, start: record.start - this._origin },
+            (value) =>
+                value instanceof Snapshot
+                    ? value.json && JSON.parse(value.json)
+                    : this._serializer.serialize(value)
+        );
+        this._write(JSON.stringify(line) + "\n");
+    }
+
+    snapshot(input: any): Snapshot {
+        return new Snapshot(JSON.stringify(this._serializer.serialize(input)));
+    }
+}
+
+export class InjectHooksReplayer {
+    constructor(private _serializer: InjectHooksSerializer = jsonSerializer) {}
+
+    parse(text: string): InjectHooksRecord[] {
+        return text
+            .split("\n")
+            .filter((line) => line.trim())
+            .map((line) =>
+                convert(JSON.parse(line), (value) =>
+                    this._serializer.deserialize(value)
+                )
+            )
+            .sort((a, b) => a.start - b.start);
+    }
+
+    async replay(
+        hooks: InjectHooks<any>,
+        recording: string | InjectHooksRecord[],
+        options: InjectHooksReplayOptions = {}
+    ): Promise<InjectHooksReplayResult[]> {
+        const records =
+            typeof recording === "string" ? this.parse(recording) : recording;
+        const run = async (
+            record: InjectHooksRecord
+        ): Promise<InjectHooksReplayResult> => {
+            try {
+                const result = await hooks.emitAsync(record.name, record.input);
+
+                return {
+                    record,
+                    result,
+                    matches: this._matches(record, result)
+                };
+            } catch (error) {
+                return { record, error, matches: record.status === "error" };
+            }
+        };
+
+        if (options.timing) {
+            const origin = records[0]?.start ?? 0;
+
+            return Promise.all(
+                records.map(
+                    (record) =>
+                        new Promise<InjectHooksReplayResult>((resolve) => {
+                            setTimeout(
+                                () => resolve(run(record)),
+                                record.start - origin
+                            );
+                        })
+                )
+            );
+        }
+
+        const results = [];
+
+        for (const record of records) {
+            results.push(await run(record));
+        }
+
+        return results;
+    }
+
+    private _matches(
+        record: InjectHooksRecord,
+        result: InjectHooksResult<any>
+    ): boolean {
+        // Compare the serialized forms, which is what the recording holds.
+        const encode = (value: any) =>
+            JSON.stringify(this._serializer.serialize(value));
+
+        return (
+            record.status === result.status &&
+            record.cancelledBy === result.cancelledBy &&
+            encode(record.output) === encode(result.data)
+        );
+    }
+}
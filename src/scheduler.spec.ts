@@ -0,0 +1,60 @@
+import { InjectHooks, InjectHooksManualScheduler } from "./inject-hooks";
+import test from "ava";
+
+test("manual scheduler only dispatches when flushed", (t) => {
+    const scheduler = new InjectHooksManualScheduler();
+    const hooks = new InjectHooks({ scheduler: scheduler.schedule });
+    const seen: string[] = [];
+    hooks.on("test", (d) => seen.push(d));
+    hooks.emit("test", "one");
+    hooks.emit("test", "two");
+    t.is(scheduler.pending, 2);
+    t.deepEqual(seen, []);
+    t.is(scheduler.flush(), 2);
+    t.deepEqual(seen, ["one", "two"]);
+    t.is(scheduler.pending, 0);
+});
+
+test("manual scheduler flushes emits queued while flushing", (t) => {
+    const scheduler = new InjectHooksManualScheduler();
+    const hooks = new InjectHooks({ scheduler: scheduler.schedule });
+    const seen: string[] = [];
+    hooks.on("outer", () => hooks.emit("inner"));
+    hooks.on("inner", () => seen.push("inner"));
+    hooks.emit("outer");
+    t.is(scheduler.flush(), 2);
+    t.deepEqual(seen, ["inner"]);
+});
+
+test("sync scheduler dispatches during emit", (t) => {
+    const hooks = new InjectHooks({ scheduler: "sync" });
+    let data = null;
+    hooks.inject("test", "one", (d, next) => next(`${d} one`));
+    hooks.on("test", (d) => (data = d));
+    hooks.emit("test", "zero");
+    t.is(data, "zero one");
+});
+
+test("microtask scheduler dispatches before timers", async (t) => {
+    const hooks = new InjectHooks({ scheduler: "microtask" });
+    let called = false;
+    hooks.on("test", () => (called = true));
+    hooks.emit("test");
+    t.false(called);
+    await Promise.resolve();
+    t.true(called);
+});
+
+test("immediate and timeout schedulers dispatch asynchronously", async (t) => {
+    for (const scheduler of ["immediate", "timeout"] as const) {
+        const hooks = new InjectHooks({ scheduler });
+        const result = hooks.emitAsync("test", scheduler);
+        t.is((await result).data, scheduler);
+    }
+});
+
+test("unknown scheduler names throw", (t) => {
+    t.throws(() => new InjectHooks({ scheduler: "later" as "sync" }), {
+        message: "InjectHooks - unknown scheduler: later"
+    });
+});
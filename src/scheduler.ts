@@ -0,0 +1,60 @@
+export type InjectHooksScheduler = (task: () => void) => void;
+export type InjectHooksSchedulerName =
+    | "microtask"
+    | "immediate"
+    | "timeout"
+    | "sync";
+
+const schedulers: Record<InjectHooksSchedulerName, InjectHooksScheduler> = {
+    microtask: (task) => queueMicrotask(task),
+    immediate: (task) => {
+        if (typeof setImmediate === "function") {
+            setImmediate(task);
+        } else {
+            setTimeout(task);
+        }
+    },
+    timeout: (task) => {
+        setTimeout(task);
+    },
+    sync: (task) => task()
+};
+
+export function getScheduler(
+    scheduler: InjectHooksScheduler | InjectHooksSchedulerName = "timeout"
+): InjectHooksScheduler {
+    if (typeof scheduler === "function") {
+        return scheduler;
+    }
+
+    if (!schedulers[scheduler]) {
+        throw new Error(`InjectHooks - unknown scheduler: ${scheduler}`);
+    }
+
+    return schedulers[scheduler];
+}
+
+export class InjectHooksManualScheduler {
+    private _tasks: (() => void)[] = [];
+
+    get pending(): number {
+        return this._tasks.length;
+    }
+
+    // Runs every queued task, including ones queued while flushing, and
+    // returns how many ran.
+    flush(): number {
+        let count = 0;
+
+        while (this._tasks.length) {
+            this._tasks.shift()!();
+            count += 1;
+        }
+
+        return count;
+    }
+
+    schedule: InjectHooksScheduler = (task) => {
+        this._tasks.push(task);
+    };
+}
@@ -0,0 +1,98 @@
+import {
+    compileSchema,
+    InjectHooksSchema,
+    InjectHooksSchemaIssue,
+    InjectHooksValidationError
+} from "./schema";
+import test from "ava";
+
+function check(schema: InjectHooksSchema, value: unknown) {
+    const issues: InjectHooksSchemaIssue[] = [];
+    compileSchema(schema)(value, "", issues);
+
+    return issues;
+}
+
+test("type names", (t) => {
+    t.deepEqual(check("string", "a"), []);
+    t.deepEqual(check("any", null), []);
+    t.deepEqual(check("null", null), []);
+    t.deepEqual(check("number?", undefined), []);
+    t.deepEqual(check("number", "1"), [
+        { path: "", message: "expected number, got string" }
+    ]);
+    t.deepEqual(check("object", []), [
+        { path: "", message: "expected object, got array" }
+    ]);
+    t.throws(() => compileSchema("strng" as InjectHooksSchema), {
+        message: "InjectHooks - unknown schema type: strng"
+    });
+});
+
+test("objects and arrays report the path of each problem", (t) => {
+    const schema: InjectHooksSchema = {
+        user: { name: "string", "email?": "string" },
+        tags: ["string"]
+    };
+    t.deepEqual(check(schema, { user: { name: "a" }, tags: [] }), []);
+    t.deepEqual(
+        check(schema, { user: { name: 1, email: null }, tags: ["a", 2] }),
+        [
+            { path: "user.name", message: "expected string, got number" },
+            { path: "user.email", message: "expected string, got null" },
+            { path: "tags[1]", message: "expected string, got number" }
+        ]
+    );
+    t.deepEqual(check(schema, { tags: "a" }), [
+        { path: "user", message: "expected object, got undefined" },
+        { path: "tags", message: "expected array, got string" }
+    ]);
+    t.throws(() => compileSchema([] as unknown as InjectHooksSchema), {
+        message: "InjectHooks - array schemas must list exactly one item schema"
+    });
+});
+
+test("functions can validate anything", (t) => {
+    const schema: InjectHooksSchema = {
+        age: (value) => value >= 0 || "must not be negative",
+        id: (value) => typeof value === "number"
+    };
+    t.deepEqual(check(schema, { age: 1, id: 1 }), []);
+    t.deepEqual(check(schema, { age: -1, id: "1" }), [
+        { path: "age", message: "must not be negative" },
+        { path: "id", message: "failed validation" }
+    ]);
+    t.deepEqual(
+        check({ user: (value) => value.name.length > 0 }, { user: {} }),
+        [
+            {
+                path: "user",
+                message:
+                    "failed validation: Cannot read properties of undefined (reading 'length')"
+            }
+        ]
+    );
+});
+
+test("validation errors name the event and the first problem", (t) => {
+    const error = new InjectHooksValidationError(
+        "save",
+        [
+            { path: "user.name", message: "expected string, got number" },
+            { path: "tags", message: "expected array, got string" }
+        ],
+        true
+    );
+    t.is(
+        error.message,
+        "InjectHooks - invalid payload for save after interceptors at user.name: expected string, got number (and 1 more)"
+    );
+    t.is(
+        new InjectHooksValidationError(
+            "save",
+            [{ path: "", message: "failed validation" }],
+            false
+        ).message,
+        "InjectHooks - invalid payload for save: failed validation"
+    );
+});
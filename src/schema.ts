@@ -0,0 +1,177 @@
+import type { InjectHooksKey } from "./inject-hooks";
+
+type SchemaType =
+    | "any"
+    | "array"
+    | "boolean"
+    | "function"
+    | "null"
+    | "number"
+    | "object"
+    | "string"
+    | "undefined";
+export type InjectHooksSchemaValidator = (
+    data: any
+) => boolean | string | undefined | void;
+export type InjectHooksSchema =
+    | SchemaType
+    | `${SchemaType}?`
+    | InjectHooksSchemaValidator
+    | [InjectHooksSchema]
+    | { [key: string]: InjectHooksSchema };
+export interface InjectHooksSchemaIssue {
+    path: string;
+    message: string;
+}
+export type SchemaCheck = (
+    value: any,
+    path: string,
+    issues: InjectHooksSchemaIssue[]
+) => void;
+
+const schemaTypes = [
+    "any",
+    "array",
+    "boolean",
+    "function",
+    "null",
+    "number",
+    "object",
+    "string",
+    "undefined"
+];
+
+export class InjectHooksValidationError extends Error {
+    constructor(
+        public event: InjectHooksKey,
+        public issues: InjectHooksSchemaIssue[],
+        public afterInterceptors: boolean
+    ) {
+        const [{ path, message }] = issues;
+        const where = afterInterceptors ? " after interceptors" : "";
+        const at = path ? ` at ${path}` : "";
+        const more =
+            issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+        super(
+            `InjectHooks - invalid payload for ${event}${where}${at}: ${message}${more}`
+        );
+        this.name = "InjectHooksValidationError";
+    }
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+
+    if (Array.isArray(value)) {
+        return "array";
+    }
+
+    return typeof value;
+}
+
+function join(path: string, key: string) {
+    return path ? `${path}.${key}` : key;
+}
+
+// Schemas are turned into functions once, when they are registered, so a
+// mistake in the schema itself is reported right away.
+export function compileSchema(schema: InjectHooksSchema): SchemaCheck {
+    if (typeof schema === "function") {
+        return (value, path, issues) => {
+            let result: ReturnType<typeof schema>;
+
+            // Validators often assume the shape they are checking, so a
+            // throw is just another way of rejecting the value.
+            try {
+                result = schema(value);
+            } catch (error) {
+                const reason =
+                    error instanceof Error ? error.message : String(error);
+                issues.push({ path, message: `failed validation: ${reason}` });
+
+                return;
+            }
+
+            if (result === false) {
+                issues.push({ path, message: "failed validation" });
+            } else if (typeof result === "string") {
+                issues.push({ path, message: result });
+            }
+        };
+    }
+
+    if (typeof schema === "string") {
+        const optional = schema.endsWith("?");
+        const type = optional ? schema.slice(0, -1) : schema;
+
+        if (!schemaTypes.includes(type)) {
+            throw new Error(`InjectHooks - unknown schema type: ${schema}`);
+        }
+
+        return (value, path, issues) => {
+            const actual = typeOf(value);
+
+            if (
+                type !== "any" &&
+                type !== actual &&
+                !(optional && value === undefined)
+            ) {
+                issues.push({
+                    path,
+                    message: `expected ${type}, got ${actual}`
+                });
+            }
+        };
+    }
+
+    if (Array.isArray(schema)) {
+        if (schema.length !== 1) {
+            throw new Error(
+                "InjectHooks - array schemas must list exactly one item schema"
+            );
+        }
+
+        const item = compileSchema(schema[0]);
+
+        return (value, path, issues) => {
+            if (!Array.isArray(value)) {
+                issues.push({
+                    path,
+                    message: `expected array, got ${typeOf(value)}`
+                });
+            } else {
+                value.forEach((v, i) => item(v, `${path}[${i}]`, issues));
+            }
+        };
+    }
+
+    if (schema && typeof schema === "object") {
+        // A key ending in "?" is optional and only checked when present.
+        const fields = Object.entries(schema).map(([key, field]) => ({
+            key: key.replace(/\?$/, ""),
+            optional: key.endsWith("?"),
+            check: compileSchema(field)
+        }));
+
+        return (value, path, issues) => {
+            if (typeOf(value) !== "object") {
+                issues.push({
+                    path,
+                    message: `expected object, got ${typeOf(value)}`
+                });
+
+                return;
+            }
+
+            for (const { key, optional, check } of fields) {
+                if (!optional || value[key] !== undefined) {
+                    check(value[key], join(path, key), issues);
+                }
+            }
+        };
+    }
+
+    throw new Error(`InjectHooks - invalid schema: ${String(schema)}`);
+}
@@ -0,0 +1,45 @@
+import { InjectHooksSubscription } from "./subscription";
+import test from "ava";
+
+test("unsubscribe closes the subscription and aborts its signal", (t) => {
+    const subscription = new InjectHooksSubscription();
+    let aborted = 0;
+    subscription.signal.addEventListener("abort", () => (aborted += 1));
+    t.false(subscription.closed);
+    subscription.unsubscribe();
+    subscription.unsubscribe();
+    t.true(subscription.closed);
+    t.is(aborted, 1);
+});
+
+test("follows the signal it was given", (t) => {
+    const controller = new AbortController();
+    const subscription = new InjectHooksSubscription(controller.signal);
+    controller.abort();
+    t.true(subscription.closed);
+
+    const aborted = new InjectHooksSubscription(AbortSignal.abort());
+    t.true(aborted.closed);
+});
+
+test("stops following the signal once closed", (t) => {
+    const controller = new AbortController();
+    const subscription = new InjectHooksSubscription(controller.signal);
+    let aborted = 0;
+    subscription.signal.addEventListener("abort", () => (aborted += 1));
+    subscription.unsubscribe();
+    controller.abort();
+    t.is(aborted, 1);
+});
+
+test("is closed at the end of a using block", (t) => {
+    let outside: InjectHooksSubscription;
+
+    {
+        using subscription = new InjectHooksSubscription();
+        outside = subscription;
+        t.false(subscription.closed);
+    }
+
+    t.true(outside.closed);
+});
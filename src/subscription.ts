@@ -0,0 +1,36 @@
+// Environments without explicit resource management still get a working
+// method under the same well-known key that `using` will look for.
+const dispose: typeof Symbol.dispose =
+    Symbol.dispose ?? (Symbol.for("Symbol.dispose") as typeof Symbol.dispose);
+
+export class InjectHooksSubscription implements Disposable {
+    private _controller = new AbortController();
+
+    constructor(signal?: AbortSignal) {
+        if (signal?.aborted) {
+            this.unsubscribe();
+        } else if (signal) {
+            const abort = () => this.unsubscribe();
+            signal.addEventListener("abort", abort);
+            this.signal.addEventListener("abort", () =>
+                signal.removeEventListener("abort", abort)
+            );
+        }
+    }
+
+    get closed(): boolean {
+        return this.signal.aborted;
+    }
+
+    get signal(): AbortSignal {
+        return this._controller.signal;
+    }
+
+    unsubscribe(): void {
+        this._controller.abort();
+    }
+
+    [dispose](): void {
+        this.unsubscribe();
+    }
+}
@@ -0,0 +1,147 @@
+import { InjectHooks, InjectHooksMemorySink } from "./inject-hooks";
+import { InjectHooksSpy, replaceInterceptor, settle } from "./testing";
+import test from "ava";
+
+test("spy records emits, interceptors and handler calls", async (t) => {
+    const hooks = new InjectHooks({ onError: () => {} });
+    hooks.inject("save", "upper", (d: string, next) =>
+        next(d.toUpperCase())
+    );
+    hooks.inject("save", "block", (d: string, next) =>
+        d === "STOP" ? next.cancel() : next(d)
+    );
+    hooks.on("save", () => {});
+    const spy = new InjectHooksSpy(hooks);
+    hooks.emit("save", "a").emit("save", "stop");
+    await settle(hooks);
+    t.deepEqual(
+        spy.emits.map((item) => [item.data, item.status, item.output]),
+        [
+            ["a", "delivered", "A"],
+            ["stop", "cancelled", "STOP"]
+        ]
+    );
+    t.deepEqual(
+        spy.interceptors.map((item) => `${item.id} ${item.status}`),
+        ["upper ok", "block ok", "upper ok", "block cancelled"]
+    );
+    t.deepEqual(spy.calls, [{ name: "save", data: "A", error: undefined }]);
+    spy.clear();
+    t.deepEqual(spy.emits, []);
+});
+
+test("spy passes spans on and can be removed", async (t) => {
+    const sink = new InjectHooksMemorySink();
+    const hooks = new InjectHooks({ trace: sink });
+
+    {
+        using spy = new InjectHooksSpy(hooks);
+        await hooks.emitAsync("save");
+        t.is(spy.emits.length, 1);
+    }
+
+    await hooks.emitAsync("save");
+    t.is(sink.spans.length, 2);
+});
+
+test("spy can be removed while an emit is in flight", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: string[] = [];
+    hooks.inject("save", "slow", async (d) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        return d;
+    });
+    hooks.on("save", (d) => calls.push(d));
+    const spy = new InjectHooksSpy(hooks);
+    const pending = hooks.emitAsync("save", "a");
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    spy.restore();
+    t.is((await pending).data, "a");
+    t.deepEqual(calls, ["a"]);
+    t.is(spy.emits.length, 0);
+});
+
+test("spy on a parent sees its scopes", async (t) => {
+    const hooks = new InjectHooks();
+    const scope = hooks.createScope("widget");
+    const spy = new InjectHooksSpy(hooks);
+    await scope.emitAsync("save", 1);
+    t.notThrows(() => spy.expectEmitted("save", (data) => data === 1));
+});
+
+test("expectEmitted checks names and data", (t) => {
+    const hooks = new InjectHooks();
+    const spy = new InjectHooksSpy(hooks);
+    hooks.emit("save", { id: 1, tags: ["a"], nested: { ok: true } });
+
+    // Emits are found before they are delivered
+    t.notThrows(() => spy.expectEmitted("save"));
+    t.notThrows(() => spy.expectEmitted("save", { nested: { ok: true } }));
+    t.notThrows(() => spy.expectEmitted("save", (data) => data.id === 1));
+    t.throws(() => spy.expectEmitted("save", { tags: [] }), {
+        message:
+            "InjectHooks - save was emitted 1 time(s), but never with matching data"
+    });
+    t.throws(() => spy.expectEmitted("load"), {
+        message: "InjectHooks - load was not emitted"
+    });
+});
+
+test("interceptors can be replaced for a while", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("s*", "fetch", (d: string, next) => next(`${d} fetched`));
+    hooks.inject("save", "after", (d: string, next) => next(`${d} after`), {
+        after: "fetch"
+    });
+    const replaced = replaceInterceptor(hooks, "save", "fetch", (d, next) =>
+        next(`${d} stubbed`)
+    );
+    t.is((await hooks.emitAsync("save", "a")).data, "a stubbed after");
+    t.is((await hooks.emitAsync("send", "a")).data, "a stubbed");
+    replaced.unsubscribe();
+    t.is((await hooks.emitAsync("save", "a")).data, "a fetched after");
+    t.throws(() => replaceInterceptor(hooks, "save", "missing", () => {}), {
+        message: "InjectHooks - save interceptor missing not found"
+    });
+});
+
+test("replacing interceptors also works for replacers", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("save", "core", (d: string, next) => next(`${d} core`));
+    hooks.inject("save", "plugin", (d: string, next) => next(`${d} plugin`), {
+        replaces: "core"
+    });
+    t.is((await hooks.emitAsync("save", "a")).data, "a plugin");
+    const replaced = replaceInterceptor(hooks, "save", "plugin", (d, next) =>
+        next(`${d} stubbed`)
+    );
+    t.is((await hooks.emitAsync("save", "a")).data, "a stubbed");
+    replaced.unsubscribe();
+    t.is((await hooks.emitAsync("save", "a")).data, "a plugin");
+});
+
+test("settle waits for emits started while waiting", async (t) => {
+    const hooks = new InjectHooks();
+    const calls: string[] = [];
+    hooks.inject("first", "slow", async (d) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        return d;
+    });
+    hooks.on("first", () => hooks.emit("second"));
+    hooks.on("second", () => calls.push("second"));
+    hooks.emit("first");
+    await settle(hooks);
+    t.deepEqual(calls, ["second"]);
+    await t.notThrowsAsync(settle(hooks));
+});
+
+test("settle gives up on emits that never finish", async (t) => {
+    const hooks = new InjectHooks();
+    hooks.inject("stuck", "never", () => {});
+    hooks.emit("stuck");
+    await t.throwsAsync(settle(hooks, { timeout: 20 }), {
+        message: "InjectHooks - still waiting after 20ms for stuck"
+    });
+});
@@ -0,0 +1,196 @@
+import type {
+    InjectHooks,
+    InjectHooksId,
+    InjectHooksInterceptor,
+    InjectHooksKey,
+    InjectHooksSpan,
+    InjectHooksTraceSink
+} from "./inject-hooks";
+import { InjectHooksInternals } from "./inject-hooks";
+import { InjectHooksSubscription } from "./subscription";
+
+export interface InjectHooksSpyEmit {
+    name: InjectHooksKey;
+    data: any;
+    status: "delivered" | "cancelled" | "error";
+    output?: any;
+    error?: unknown;
+}
+export interface InjectHooksSpyInterceptor {
+    name: InjectHooksKey;
+    id: InjectHooksId;
+    data: any;
+    status: NonNullable<InjectHooksSpan["status"]>;
+    output?: any;
+    error?: unknown;
+}
+export interface InjectHooksSpyCall {
+    name: InjectHooksKey;
+    data: any;
+    error?: unknown;
+}
+export interface InjectHooksSettleOptions {
+    timeout?: number;
+}
+
+function isMatch(value: any, expected: any): boolean {
+    if (Array.isArray(expected)) {
+        return (
+            Array.isArray(value) &&
+            value.length === expected.length &&
+            expected.every((item, i) => isMatch(value[i], item))
+        );
+    }
+
+    if (
+        expected &&
+        typeof expected === "object" &&
+        Object.getPrototypeOf(expected) === Object.prototype
+    ) {
+        return (
+            !!value &&
+            typeof value === "object" &&
+            Object.keys(expected).every((key) =>
+                isMatch(value[key], expected[key])
+            )
+        );
+    }
+
+    return Object.is(value, expected);
+}
+
+export class InjectHooksSpy implements InjectHooksTraceSink {
+    calls: InjectHooksSpyCall[] = [];
+    emits: InjectHooksSpyEmit[] = [];
+    interceptors: InjectHooksSpyInterceptor[] = [];
+    private _remove: () => void;
+
+    constructor(private _hooks: InjectHooks<any>) {
+        // Spans already describe every emit, interceptor and handler, so the
+        // spy listens as an extra trace sink.
+        this._remove = _hooks[InjectHooksInternals]().addTraceSink(this);
+    }
+
+    clear() {
+        this.calls = [];
+        this.emits = [];
+        this.interceptors = [];
+    }
+
+    expectEmitted(
+        name: InjectHooksKey,
+        matcher: ((data: any) => boolean) | object = {}
+    ): void {
+        const test =
+            typeof matcher === "function"
+                ? matcher
+                : (data: any) => isMatch(data, matcher);
+        const seen = [
+            ...this.emits,
+            ...this._hooks[InjectHooksInternals]().getInFlight()
+        ].filter((item) => item.name === name);
+
+        if (!seen.some((item) => test(item.data))) {
+            throw new Error(
+                seen.length
+                    ? `InjectHooks - ${name} was emitted ${seen.length} time(s), but never with matching data`
+                    : `InjectHooks - ${name} was not emitted`
+            );
+        }
+    }
+
+    record(span: InjectHooksSpan) {
+        const { name, input: data, output, error, status } = span;
+
+        if (span.kind === "emit") {
+            this.emits.push({
+                name,
+                data,
+                status:
+                    status === "ok"
+                        ? "delivered"
+                        : status === "cancelled"
+                          ? "cancelled"
+                          : "error",
+                output,
+                error
+            });
+        } else if (span.kind === "interceptor") {
+            this.interceptors.push({
+                name,
+                id: span.id!,
+                data,
+                status: status!,
+                output,
+                error
+            });
+        } else {
+            this.calls.push({ name, data, error });
+        }
+    }
+
+    restore() {
+        this._remove();
+    }
+
+    [Symbol.dispose]() {
+        this.restore();
+    }
+}
+
+export function replaceInterceptor<KEY extends InjectHooksKey>(
+    hooks: InjectHooks<any>,
+    name: KEY,
+    id: InjectHooksId,
+    interceptor: InjectHooksInterceptor<KEY, any>
+): InjectHooksSubscription {
+    const info = hooks[InjectHooksInternals]().getInterceptor(name, id);
+
+    if (!info) {
+        throw new Error(`InjectHooks - ${name} interceptor ${id} not found`);
+    }
+
+    // The registration keeps its conditions and place in the order. Only the
+    // function changes, for every event the registration applies to.
+    const original = info.injector;
+    const subscription = new InjectHooksSubscription();
+    info.injector = interceptor as InjectHooksInterceptor<string, any>;
+    subscription.signal.addEventListener("abort", () => {
+        info.injector = original;
+    });
+
+    return subscription;
+}
+
+export function settle(
+    hooks: InjectHooks<any>,
+    options: InjectHooksSettleOptions = {}
+): Promise<void> {
+    const internals = hooks[InjectHooksInternals]();
+    const timeout = options.timeout ?? 2000;
+
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            const names = internals.getInFlight().map((state) => state.name);
+            reject(
+                new Error(
+                    `InjectHooks - still waiting after ${timeout}ms for ${names.join(", ")}`
+                )
+            );
+        }, timeout);
+
+        // Wait for one emit at a time. Emits started while waiting are
+        // picked up when the next one finishes.
+        const check = () => {
+            const [state] = internals.getInFlight();
+
+            if (state) {
+                state.cleanup.push(check);
+            } else {
+                clearTimeout(timer);
+                resolve();
+            }
+        };
+        check();
+    });
+}
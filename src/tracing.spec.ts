@@ -0,0 +1,44 @@
+import {
+    InjectHooks,
+    InjectHooksConsoleSink,
+    InjectHooksJsonSink
+} from "./inject-hooks";
+import test from "ava";
+
+test("console sink indents nested spans", async (t) => {
+    const lines: string[] = [];
+    const hooks = new InjectHooks({
+        trace: new InjectHooksConsoleSink((line) => lines.push(line))
+    });
+    hooks.inject("test", "one", (d, next) => next(d));
+    await hooks.emitAsync("test");
+    t.is(lines.length, 2);
+    t.regex(lines[0], /^  \[\d+\] interceptor test one ok \d+\.\d\dms$/);
+    t.regex(lines[1], /^\[\d+\] emit test ok \d+\.\d\dms$/);
+});
+
+test("JSON sink writes one span per line", async (t) => {
+    const lines: string[] = [];
+    const hooks = new InjectHooks({
+        trace: new InjectHooksJsonSink((line) => lines.push(line))
+    });
+    hooks.on("test", () => {});
+    await hooks.emitAsync("test", { value: 1 });
+    t.is(lines.length, 2);
+    t.true(lines.every((line) => line.endsWith("\n")));
+    const emit = JSON.parse(lines[1]);
+    t.is(emit.kind, "emit");
+    t.deepEqual(emit.input, { value: 1 });
+});
+
+test("JSON sink accepts a replacer for payloads", async (t) => {
+    const lines: string[] = [];
+    const hooks = new InjectHooks({
+        trace: new InjectHooksJsonSink(
+            (line) => lines.push(line),
+            (key, value) => (key === "input" ? "[redacted]" : value)
+        )
+    });
+    await hooks.emitAsync("test", "secret");
+    t.is(JSON.parse(lines[0]).input, "[redacted]");
+});
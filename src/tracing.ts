@@ -0,0 +1,41 @@
+import type { InjectHooksSpan, InjectHooksTraceSink } from "./inject-hooks";
+
+export class InjectHooksConsoleSink implements InjectHooksTraceSink {
+    constructor(private _log: (line: string) => void = console.log) {}
+
+    record(span: InjectHooksSpan) {
+        const indent = "  ".repeat(span.depth);
+        const label =
+            span.id === undefined ? span.name : `${span.name} ${span.id}`;
+        this._log(
+            `${indent}[${span.traceId}] ${span.kind} ${label} ${span.status} ${span.duration!.toFixed(2)}ms`
+        );
+    }
+}
+
+export class InjectHooksJsonSink implements InjectHooksTraceSink {
+    constructor(
+        private _write: (line: string) => void,
+        private _replacer?: (key: string, value: any) => any
+    ) {}
+
+    record(span: InjectHooksSpan) {
+        this._write(JSON.stringify(span, this._replacer) + "\n");
+    }
+}
+
+export class InjectHooksMemorySink implements InjectHooksTraceSink {
+    spans: InjectHooksSpan[] = [];
+
+    clear() {
+        this.spans = [];
+    }
+
+    record(span: InjectHooksSpan) {
+        this.spans.push(span);
+    }
+
+    trace(traceId: string): InjectHooksSpan[] {
+        return this.spans.filter((span) => span.traceId === traceId);
+    }
+}